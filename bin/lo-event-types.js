@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+/*
+ * Generate a TypeScript event map from a schema registry file, for use
+ * with `lo_event.createEventLogger<Events>()`.
+ *
+ * The registry file maps event types to schemas (see src/schema.ts).
+ * It can be JSON, or a JavaScript module whose default export is the
+ * registry, so that the application can register the same schemas
+ * with `registerSchemas` at run time.
+ *
+ * Usage:
+ *   lo-event-types schemas.json [--name Events] [--out events.ts]
+ *
+ * Without `--out`, we print to standard output.
+ */
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+/**
+ * Our own `lo_event/schema` export. In a checkout, it does not exist
+ * until lo_event is built, so we build it the first time we need it.
+ */
+async function loadSchema () {
+  try {
+    return await import('lo_event/schema');
+  } catch (error) {
+    const root = fileURLToPath(new URL('..', import.meta.url));
+    if (error.code !== 'ERR_MODULE_NOT_FOUND' || !fs.existsSync(path.join(root, 'src', 'schema.ts'))) {
+      throw error;
+    }
+    console.error('lo-event-types: building lo_event first');
+    execFileSync('npm', ['run', 'build'], { cwd: root, stdio: ['ignore', process.stderr, 'inherit'] });
+    return await import('lo_event/schema');
+  }
+}
+
+function usage () {
+  console.error('Usage: lo-event-types <schemas.json|schemas.js> [--name Events] [--out events.ts]');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+let registryPath = null;
+let interfaceName = 'Events';
+let outPath = null;
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--name') {
+    interfaceName = args[++i] ?? usage();
+  } else if (args[i] === '--out') {
+    outPath = args[++i] ?? usage();
+  } else if (!registryPath) {
+    registryPath = args[i];
+  } else {
+    usage();
+  }
+}
+if (!registryPath) {
+  usage();
+}
+
+const registry = registryPath.endsWith('.json')
+  ? JSON.parse(fs.readFileSync(registryPath, 'utf8'))
+  : (await import(pathToFileURL(path.resolve(registryPath)).href)).default;
+
+const { generateEventTypes } = await loadSchema();
+const source = generateEventTypes(registry, { interfaceName, source: path.basename(registryPath) });
+if (outPath) {
+  fs.writeFileSync(outPath, source);
+} else {
+  process.stdout.write(source);
+}
@@ -0,0 +1,99 @@
+/*
+ * Last-chance delivery of pending events when a page goes away.
+ *
+ * When a tab is closed (or a Chromebook lid is shut), anything still
+ * sitting in an in-memory queue is lost. Browsers give us one reliable
+ * tool for this: `navigator.sendBeacon`, which queues a small POST that
+ * outlives the page.
+ *
+ * We listen for `pagehide`. We do not flush on `visibilitychange` to
+ * `hidden`: that fires on every tab switch, and draining the loggers
+ * then would send everything by beacon, bypassing their connections
+ * (and acknowledgements), while the page is still alive. Persistent
+ * queues keep events across a page frozen and discarded without
+ * `pagehide`.
+ *
+ * Payloads use the same NDJSON format as `httpLogger`: a
+ * `session_header` line followed by one event per line, with another
+ * header before any change of fields.
+ */
+import * as debug from './debugLog.js';
+import { isHeaderLine } from './lockFields.js';
+
+// Browsers cap the total size of in-flight beacons (64KB in Chrome), so
+// we split large backlogs into several beacons, each with its own header.
+const MAX_BEACON_BYTES = 60000;
+
+/**
+ * Register `handler` to be called when the page is unloaded (or put in
+ * the back/forward cache). Returns a function which removes the
+ * listener.
+ *
+ * Outside of a browser, this does nothing.
+ */
+export function onPageHide (handler: () => void): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+  window.addEventListener('pagehide', handler);
+
+  return () => {
+    window.removeEventListener('pagehide', handler);
+  };
+}
+
+/**
+ * Send `events` (JSON-encoded strings) to `endpoint` with
+ * `navigator.sendBeacon`, preceded by `header` in each beacon. A
+ * `session_header` among `events` (see lockFields.ts) takes its place
+ * for the beacons after it.
+ *
+ * We send plain strings, which go out as `text/plain`. That keeps the
+ * request CORS-safelisted; other content types are rejected by some
+ * browsers for cross-origin beacons.
+ *
+ * Returns `false` if the beacon API is missing or the browser refused
+ * any part of the payload.
+ */
+export function sendBeacon (endpoint: string, header: string | null, events: string[]): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+    debug.info('beacon: navigator.sendBeacon is not available');
+    return false;
+  }
+
+  // The header for the events from here on
+  let current = header;
+  let chunk: string[] = [];
+  let chunkSize = 0;
+  let ok = true;
+
+  const send = () => {
+    if (chunk.length === 0) return;
+    const body = chunk.join('\n') + '\n';
+    if (!navigator.sendBeacon(endpoint, body)) {
+      debug.error(`beacon: browser refused beacon with ${chunk.length} lines`);
+      ok = false;
+    }
+    chunk = [];
+    chunkSize = 0;
+  };
+
+  for (const event of events) {
+    if (chunk.length > 0 && chunkSize + event.length + 1 > MAX_BEACON_BYTES) {
+      send();
+    }
+    const isHeader = isHeaderLine(event);
+    if (chunk.length === 0 && current && !isHeader) {
+      chunk.push(current);
+      chunkSize += current.length + 1;
+    }
+    chunk.push(event);
+    chunkSize += event.length + 1;
+    if (isHeader) {
+      current = event;
+    }
+  }
+  send();
+
+  return ok;
+}
@@ -0,0 +1,355 @@
+/*
+ * Building and validating IMS Caliper 1.2 Events.
+ *
+ * Many LMS analytics pipelines only accept Caliper. Each profile we
+ * support has a builder which knows its event type, its actions, and
+ * the type of its object:
+ *
+ *   assessmentItemEvent('Completed', {
+ *     object: { id: 'https://example.org/quiz/1/q3', name: 'Question 3' },
+ *     generated: { id: 'https://example.org/quiz/1/q3/responses/1', type: 'Response' }
+ *   }, { fields: lockedFields })
+ *
+ * Entities may be given as just an id, or without a type, where the
+ * profile says what they must be. As with xAPI (see xapi.ts), the
+ * actor, unless given, comes from the fields we have locked: an
+ * `actor`, an `email`, or a `user_id`. We fill in the event id and
+ * time.
+ *
+ * `fromLoEvent` converts lo_event events into Caliper Events, and
+ * `envelope` wraps them for sending; `caliperLogger` uses both.
+ * `validateEvent` checks what Caliper endpoints enforce. It is not a
+ * complete conformance test.
+ */
+import * as util from './util.js';
+
+export const CALIPER_CONTEXT = 'http://purl.imsglobal.org/ctx/caliper/v1p2';
+
+/**
+ * The profiles we support: for each event type, its actions, and the
+ * default type of its object.
+ */
+export const PROFILES = {
+  AssessmentEvent: {
+    actions: ['Started', 'Paused', 'Resumed', 'Restarted', 'Reset', 'Submitted'],
+    objectType: 'Assessment'
+  },
+  AssessmentItemEvent: {
+    actions: ['Started', 'Skipped', 'Completed'],
+    objectType: 'AssessmentItem'
+  },
+  NavigationEvent: {
+    actions: ['NavigatedTo'],
+    objectType: 'DigitalResource'
+  },
+  SessionEvent: {
+    actions: ['LoggedIn', 'LoggedOut', 'TimedOut'],
+    objectType: 'SoftwareApplication'
+  },
+  ToolUseEvent: {
+    actions: ['Used'],
+    objectType: 'SoftwareApplication'
+  }
+} as const;
+
+export type EventType = keyof typeof PROFILES;
+export type Action<T extends EventType> = typeof PROFILES[T]['actions'][number];
+
+export interface Entity {
+  id: string;
+  type: string;
+  name?: string;
+  description?: string;
+  dateCreated?: string;
+  dateModified?: string;
+  extensions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * An entity, in shorthand: just its id, or an entity whose type is
+ * left to the profile.
+ */
+export type EntityShorthand = string | (Omit<Entity, 'type'> & { type?: string });
+
+export interface CaliperEvent {
+  '@context': string;
+  id: string;
+  type: EventType;
+  actor: Entity;
+  action: string;
+  object: Entity;
+  eventTime: string;
+  edApp?: Entity;
+  generated?: Entity;
+  target?: Entity;
+  referrer?: Entity;
+  group?: Entity;
+  membership?: Entity;
+  session?: Entity;
+  federatedSession?: Entity;
+  extensions?: Record<string, unknown>;
+}
+
+export interface EventParts {
+  object: EntityShorthand;
+  actor?: EntityShorthand;
+  edApp?: EntityShorthand;
+  generated?: Entity;
+  target?: EntityShorthand;
+  referrer?: EntityShorthand;
+  group?: EntityShorthand;
+  session?: EntityShorthand;
+  extensions?: Record<string, unknown>;
+  eventTime?: string | Date;
+  id?: string;
+}
+
+export interface Envelope {
+  sensor: string;
+  sendTime: string;
+  dataVersion: string;
+  data: CaliperEvent[];
+}
+
+export interface BuildOptions {
+  /** Locked fields (and auth information) to find the actor in */
+  fields?: Record<string, unknown>;
+  /** Where people built from a `user_id` live: `<base>/users/<id>` */
+  personIdBase?: string;
+  /** The application generating events, if not given per event */
+  edApp?: EntityShorthand;
+}
+
+const UUID_URN = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+// Caliper requires UTC, to the millisecond
+const ISO_TIMESTAMP = /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{3}Z$/;
+
+function timestamp (time: string | Date | undefined) {
+  return (time === undefined ? new Date() : new Date(time)).toISOString();
+}
+
+function entity (value: EntityShorthand, defaultType: string): Entity {
+  return typeof value === 'string'
+    ? { id: value, type: defaultType }
+    : { ...value, type: value.type ?? defaultType } as Entity;
+}
+
+function defaultPersonIdBase () {
+  return typeof location !== 'undefined' ? location.origin : undefined;
+}
+
+/**
+ * Work out who the actor is from our locked fields: an explicit
+ * `actor`, else an `email` (also from `chrome_identity`), else a
+ * `user_id`, as a Person under `personIdBase`.
+ */
+export function actorFromFields (
+  fields: Record<string, unknown> = {},
+  personIdBase = defaultPersonIdBase()
+): Entity | null {
+  const actor = fields.actor as Record<string, unknown> | undefined;
+  if (actor && typeof actor === 'object' && typeof actor.id === 'string') {
+    return entity(actor as EntityShorthand, 'Person');
+  }
+  const identity = (fields.chrome_identity ?? {}) as Record<string, unknown>;
+  const email = fields.email ?? identity.email;
+  if (typeof email === 'string' && email) {
+    return { id: `mailto:${email}`, type: 'Person' };
+  }
+  const userId = fields.user_id ?? fields.safe_user_id;
+  if (userId !== undefined && userId !== null && personIdBase) {
+    return { id: `${personIdBase.replace(/\/+$/, '')}/users/${encodeURIComponent(String(userId))}`, type: 'Person' };
+  }
+  return null;
+}
+
+/**
+ * Build an event of `type` from `parts`. Throws if the action is not
+ * one of the profile's, or we cannot find an actor.
+ */
+export function buildEvent<T extends EventType> (
+  type: T,
+  action: Action<T>,
+  parts: EventParts,
+  { fields = {}, personIdBase, edApp }: BuildOptions = {}
+): CaliperEvent {
+  const profile = PROFILES[type];
+  if (!profile) {
+    throw new Error(`Unsupported Caliper event type: ${type}`);
+  }
+  if (!(profile.actions as readonly string[]).includes(action)) {
+    throw new Error(`Unknown Caliper action for ${type}: ${action}`);
+  }
+  // A session times out on its own; everything else is done by someone
+  const timedOut = type === 'SessionEvent' && action === 'TimedOut';
+  const actor = parts.actor
+    ? entity(parts.actor, timedOut ? 'SoftwareApplication' : 'Person')
+    : actorFromFields(fields, personIdBase ?? defaultPersonIdBase());
+  if (!actor) {
+    throw new Error('No Caliper actor: pass one, or lock an actor, email, or user_id field');
+  }
+  const event: CaliperEvent = {
+    '@context': CALIPER_CONTEXT,
+    id: parts.id ?? `urn:uuid:${util.uuid()}`,
+    type,
+    actor,
+    action,
+    object: entity(parts.object, timedOut ? 'Session' : profile.objectType),
+    eventTime: timestamp(parts.eventTime)
+  };
+  const app = parts.edApp ?? edApp;
+  if (app) event.edApp = entity(app, 'SoftwareApplication');
+  if (parts.generated) event.generated = parts.generated;
+  if (parts.target) event.target = entity(parts.target, 'Frame');
+  if (parts.referrer) event.referrer = entity(parts.referrer, 'DigitalResource');
+  if (parts.group) event.group = entity(parts.group, 'CourseSection');
+  if (parts.session) event.session = entity(parts.session, 'Session');
+  if (parts.extensions) event.extensions = parts.extensions;
+  return event;
+}
+
+export function assessmentEvent (action: Action<'AssessmentEvent'>, parts: EventParts, options?: BuildOptions) {
+  return buildEvent('AssessmentEvent', action, parts, options);
+}
+
+export function assessmentItemEvent (action: Action<'AssessmentItemEvent'>, parts: EventParts, options?: BuildOptions) {
+  return buildEvent('AssessmentItemEvent', action, parts, options);
+}
+
+export function navigationEvent (parts: EventParts, options?: BuildOptions) {
+  return buildEvent('NavigationEvent', 'NavigatedTo', parts, options);
+}
+
+export function sessionEvent (action: Action<'SessionEvent'>, parts: EventParts, options?: BuildOptions) {
+  return buildEvent('SessionEvent', action, parts, options);
+}
+
+export function toolUseEvent (parts: EventParts, options?: BuildOptions) {
+  return buildEvent('ToolUseEvent', 'Used', parts, options);
+}
+
+/**
+ * How to turn one kind of lo_event event into a Caliper Event: its
+ * type and action, and a function picking the parts out of the event.
+ * Or, a function which builds the event itself, returning `null` to
+ * skip it.
+ */
+export type MappingEntry = {
+  [T in EventType]: ProfileMapping<T>;
+}[EventType] | ((event: Record<string, unknown>, options: BuildOptions) => CaliperEvent | null);
+
+export interface ProfileMapping<T extends EventType> {
+  type: T;
+  action: Action<T>;
+  parts: (event: Record<string, unknown>) => EventParts | null;
+}
+
+/**
+ * lo_event events with an obvious Caliper equivalent.
+ */
+export const DEFAULT_MAPPING: Record<string, MappingEntry> = {
+  'browser.generic.hashchange': {
+    type: 'NavigationEvent',
+    action: 'NavigatedTo',
+    parts: (event) => event.newURL
+      ? { object: { id: event.newURL as string, type: 'WebPage' }, referrer: event.oldURL ? { id: event.oldURL as string, type: 'WebPage' } : undefined }
+      : null
+  }
+};
+
+/**
+ * Convert an lo_event event into a Caliper Event, using `mapping`
+ * (over `DEFAULT_MAPPING`), or `null` if it has no Caliper
+ * equivalent. `caliper_event` events (from `lo_event.logCaliper`)
+ * carry one already. The event time is the one lo_event stamped.
+ */
+export function fromLoEvent (
+  event: Record<string, unknown>,
+  mapping: Record<string, MappingEntry> = {},
+  options: BuildOptions = {}
+): CaliperEvent | null {
+  if (event.event === 'caliper_event') {
+    return event.caliper as CaliperEvent;
+  }
+  const type = event.event as string;
+  const entry = (Object.hasOwn(mapping, type) ? mapping[type] : undefined) ??
+    (Object.hasOwn(DEFAULT_MAPPING, type) ? DEFAULT_MAPPING[type] : undefined);
+  if (!entry) {
+    return null;
+  }
+  if (typeof entry === 'function') {
+    return entry(event, options);
+  }
+  const eventTime = (event.metadata as Record<string, unknown> | undefined)?.iso_ts as string | undefined;
+  return buildMapped(entry, event, eventTime, options);
+}
+
+function buildMapped<T extends EventType> (
+  entry: ProfileMapping<T>,
+  event: Record<string, unknown>,
+  eventTime: string | undefined,
+  options: BuildOptions
+) {
+  const parts = entry.parts(event);
+  return parts ? buildEvent(entry.type, entry.action, { eventTime, ...parts }, options) : null;
+}
+
+/**
+ * Wrap `events` in an envelope from `sensor`, as Caliper endpoints
+ * expect them.
+ */
+export function envelope (sensor: string, events: CaliperEvent[]): Envelope {
+  return {
+    sensor,
+    sendTime: new Date().toISOString(),
+    dataVersion: CALIPER_CONTEXT,
+    data: events
+  };
+}
+
+function checkEntity (value: unknown, path: string, errors: string[]) {
+  if (typeof value !== 'object' || value === null) {
+    errors.push(`${path}: must be an entity`);
+    return;
+  }
+  const { id, type } = value as Record<string, unknown>;
+  if (!util.isIRI(id)) {
+    errors.push(`${path}.id: must be an IRI`);
+  }
+  if (typeof type !== 'string' || !type) {
+    errors.push(`${path}.type: is required`);
+  }
+}
+
+/**
+ * Check `event` against Caliper 1.2. Returns a list of problems, each
+ * prefixed with where they are; empty if the event is valid.
+ */
+export function validateEvent (event: CaliperEvent): string[] {
+  const errors: string[] = [];
+  if (event['@context'] !== CALIPER_CONTEXT) {
+    errors.push(`@context: must be ${CALIPER_CONTEXT}`);
+  }
+  if (!UUID_URN.test(event.id)) {
+    errors.push('id: must be a urn:uuid: IRI');
+  }
+  const profile = PROFILES[event.type];
+  if (!profile) {
+    errors.push(`type: unsupported ${event.type}`);
+  } else if (!(profile.actions as readonly string[]).includes(event.action)) {
+    errors.push(`action: must be one of ${profile.actions.join(', ')}`);
+  }
+  checkEntity(event.actor, 'actor', errors);
+  checkEntity(event.object, 'object', errors);
+  if (!ISO_TIMESTAMP.test(event.eventTime)) {
+    errors.push('eventTime: must be an ISO 8601 UTC timestamp with milliseconds');
+  }
+  for (const key of ['edApp', 'generated', 'target', 'referrer', 'group', 'membership', 'session', 'federatedSession'] as const) {
+    if (event[key] !== undefined) checkEntity(event[key], key, errors);
+  }
+  if (event.extensions !== undefined && (typeof event.extensions !== 'object' || event.extensions === null)) {
+    errors.push('extensions: must be an object');
+  }
+  return errors;
+}
@@ -0,0 +1,134 @@
+import { Queue, QueueType } from './queue.js';
+import * as caliper from './caliper.js';
+import * as util from './util.js';
+import * as debug from './debugLog.js';
+import * as disabler from './disabler.js';
+import { poster } from './poster.js';
+import { lockFieldsState, applyLockEvent } from './lockFields.js';
+import type { Logger, QueueLimits } from './types.js';
+
+export interface CaliperLoggerOptions {
+  sensor: string;
+  token?: string;
+  mapping?: Record<string, caliper.MappingEntry>;
+  personIdBase?: string;
+  edApp?: caliper.EntityShorthand;
+  batchSize?: number;
+  headers?: Record<string, string>;
+  queueType?: string;
+  queueLimits?: QueueLimits;
+}
+
+export function caliperLogger (
+  endpoint: string,
+  {
+    sensor,
+    token = undefined,
+    mapping = {},
+    personIdBase = undefined,
+    edApp = undefined,
+    batchSize = 50,
+    headers = {},
+    queueType = QueueType.AUTODETECT,
+    queueLimits = {}
+  }: CaliperLoggerOptions
+): Logger {
+  /*
+    This logger sends events to a Caliper endpoint, as Caliper 1.2
+    Events, POSTed in envelopes from `sensor` (the IRI identifying us
+    to the endpoint).
+
+    As with `lrsLogger`, we convert events when they are logged (see
+    `caliper.fromLoEvent`), skipping those with no Caliper equivalent,
+    and keep the converted events in our own queue until the endpoint
+    accepts them. We retry, and set aside events the endpoint rejects,
+    as poster.ts describes. While the server holds our events (see
+    disabler.ts), we post nothing.
+  */
+  const queue = new Queue(`caliperLogger-${endpoint.replace(/[^A-Za-z0-9]+/g, '_')}`, {
+    queueType,
+    limits: queueLimits
+  });
+  const lockState = lockFieldsState();
+
+  const eventPoster = poster({
+    name: 'caliperLogger',
+    target: 'Caliper endpoint',
+    queue,
+    post: (events, signal) => fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers
+      },
+      signal,
+      body: JSON.stringify(caliper.envelope(sensor, events as caliper.CaliperEvent[]))
+    })
+  });
+
+  function caliperLogData (data: string) {
+    const event = JSON.parse(data);
+    let caliperEvent;
+    try {
+      caliperEvent = caliper.fromLoEvent(event, mapping, {
+        fields: lockState.fields,
+        personIdBase,
+        edApp
+      });
+    } catch (e) {
+      debug.error(`caliperLogger: could not convert ${event.event} to a Caliper event`, e);
+      return;
+    }
+    if (!caliperEvent) {
+      return;
+    }
+    const errors = caliper.validateEvent(caliperEvent);
+    if (errors.length > 0) {
+      // The endpoint would reject it
+      debug.error(`caliperLogger: dropping invalid Caliper event for ${event.event}: ${errors.join('; ')}`);
+      return;
+    }
+    queue.enqueue(caliperEvent);
+  }
+
+  caliperLogData.init = async function () {
+    if (typeof fetch === 'undefined') {
+      debug.error('caliperLogger: fetch is not available in this environment');
+      return;
+    }
+    eventPoster.start();
+    queue.startDequeueLoop({
+      shouldDequeue: disabler.waitUntilReleased,
+      onDequeue: (events) => eventPoster.post(events as unknown[]),
+      batchSize
+    });
+  };
+
+  caliperLogData.setField = function (data: string) {
+    applyLockEvent(lockState, JSON.parse(data));
+  };
+
+  caliperLogData.flush = async function (timeoutMs: number) {
+    return await util.waitFor(async () => (await queue.size()) === 0, timeoutMs);
+  };
+
+  // Events still queued are sent once we are started again
+  caliperLogData.stop = async function () {
+    eventPoster.stop();
+    await queue.stop();
+  };
+
+  // `connected` means our last POST succeeded
+  caliperLogData.getStatus = async function () {
+    return {
+      connected: eventPoster.connected(),
+      queue: await queue.status()
+    };
+  };
+
+  caliperLogData.lo_name = 'Caliper Logger';
+  caliperLogData.lo_id = 'caliper_logger';
+
+  return caliperLogData as Logger;
+}
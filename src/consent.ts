@@ -0,0 +1,162 @@
+/*
+ * Client-side consent.
+ *
+ * The disabler (disabler.ts) acts on what the server tells us. Consent
+ * is what the student (or district) tells us: which kinds of events we
+ * may capture. Apps name categories of events, by type, in
+ * `lo_event.init`'s options, and record decisions as they are made:
+ *
+ *   lo_event.init(source, version, loggers, {
+ *     consent: {
+ *       categories: {
+ *         keystrokes: ['browser.key.*'],
+ *         analytics: ['browser.*', 'page_*']
+ *       }
+ *     }
+ *   });
+ *   ...
+ *   lo_event.consent.set({ analytics: true, keystrokes: false });
+ *
+ * An event is in the first category matching its type; events in none
+ * are not affected. Per category, we act as the disabler does:
+ * granted categories are TRANSMITted, denied ones DROPped, and until a
+ * decision, we MAINTAIN their events (or, with `whilePending: DROP`,
+ * drop them). Held events are released, in order, when their category
+ * is granted, and purged when it is denied.
+ *
+ * Decisions are kept in `browserStorage`, per source, and each change
+ * is logged as a `consent_changed` event (which is never held).
+ */
+import { storage } from './browserStorage.js';
+import { EVENT_ACTION } from './disabler.js';
+import { compileFilter } from './eventFilter.js';
+import * as debug from './debugLog.js';
+import type { ConsentChanges, ConsentOptions } from './types.js';
+
+export const CONSENT_EVENT = 'consent_changed';
+
+const CONSENT_STORE = 'consentState';
+
+export function createConsent (source: string, { categories, whilePending = EVENT_ACTION.MAINTAIN }: ConsentOptions) {
+  if (whilePending !== EVENT_ACTION.MAINTAIN && whilePending !== EVENT_ACTION.DROP) {
+    throw new Error(`whilePending must be MAINTAIN or DROP, not ${whilePending}`);
+  }
+  const storeKey = `${CONSENT_STORE}:${source}`;
+  const matchers = Object.entries(categories).map(([name, events]) => ({
+    name,
+    matches: compileFilter({ events })
+  }));
+  let decisions: Record<string, boolean> = {};
+  // Until we have read stored decisions, everything categorized is held
+  let loaded = false;
+  // Decisions made before then, to store once merged with those stored
+  let unsaved = false;
+  const grantWaiters = new Map<string, (() => void)[]>();
+
+  function isGranted (category: string) {
+    return decisions[category] === true;
+  }
+
+  function wakeGranted () {
+    for (const [category, waiters] of grantWaiters) {
+      if (isGranted(category)) {
+        grantWaiters.delete(category);
+        waiters.forEach(resolve => resolve());
+      }
+    }
+  }
+
+  /**
+   * Read stored decisions. Resolves once they are in effect.
+   */
+  function load () {
+    return new Promise<void>(resolve => {
+      storage.get([storeKey], (result) => {
+        decisions = { ...(result[storeKey] as Record<string, boolean> | undefined), ...decisions };
+        loaded = true;
+        if (unsaved) {
+          storage.set({ [storeKey]: { ...decisions } });
+          unsaved = false;
+        }
+        debug.info(`Consent for ${source}: ${JSON.stringify(decisions)}`);
+        wakeGranted();
+        resolve();
+      });
+    });
+  }
+
+  return {
+    load,
+    categories: () => matchers.map(({ name }) => name),
+
+    /**
+     * The category of events of `eventType`, or `null` if it has none.
+     */
+    categoryOf (eventType: string) {
+      if (eventType === CONSENT_EVENT) {
+        return null;
+      }
+      return matchers.find(({ matches }) => matches({ event: eventType }))?.name ?? null;
+    },
+
+    /**
+     * What to do with events in `category`: one of the disabler's
+     * EVENT_ACTIONs.
+     */
+    actionFor (category: string | null) {
+      if (category === null || isGranted(category)) {
+        return EVENT_ACTION.TRANSMIT;
+      }
+      if (decisions[category] === false || (loaded && whilePending === EVENT_ACTION.DROP)) {
+        return EVENT_ACTION.DROP;
+      }
+      return EVENT_ACTION.MAINTAIN;
+    },
+
+    /**
+     * Record decisions, returning those which changed. Before `load`,
+     * they are stored once it has read those already stored, so
+     * decisions on other categories are kept.
+     */
+    set (changes: Record<string, boolean>): ConsentChanges {
+      const changed: ConsentChanges = {};
+      for (const [category, granted] of Object.entries(changes)) {
+        if (!matchers.some(({ name }) => name === category)) {
+          throw new Error(`Unknown consent category: ${category}`);
+        }
+        if (typeof granted !== 'boolean') {
+          throw new Error(`Consent for ${category} must be true or false`);
+        }
+        if (decisions[category] !== granted) {
+          changed[category] = { from: decisions[category] ?? null, to: granted };
+          decisions[category] = granted;
+        }
+      }
+      if (Object.keys(changed).length > 0) {
+        if (loaded) {
+          storage.set({ [storeKey]: { ...decisions } });
+        } else {
+          unsaved = true;
+        }
+        wakeGranted();
+      }
+      return changed;
+    },
+
+    get: () => ({ ...decisions }),
+
+    /**
+     * Resolves once `category` is granted.
+     */
+    whenGranted (category: string) {
+      if (isGranted(category)) {
+        return Promise.resolve();
+      }
+      return new Promise<void>(resolve => {
+        grantWaiters.set(category, [...(grantWaiters.get(category) ?? []), resolve]);
+      });
+    }
+  };
+}
+
+export type Consent = ReturnType<typeof createConsent>;
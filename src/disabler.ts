@@ -1,11 +1,5 @@
 /*
  * Code to handle blacklists, opt-ins, opt-outs, etc.
- *
- * Unfinished. We need to flush out storage.js and connect to make
- * this work.
- *
- * TODO: At least document what's unfinished and what work is remaining. It
- * looks like there was some progress since the above was written.
  */
 
 /*
@@ -15,10 +9,21 @@
  * - If a school or student does not want us to collect their data, but
  *   have the extension installed, we don't want to store them
  *   client-side.
+ *
+ * The server tells us which with a `blocklist` response (see the
+ * loggers), carrying one of EVENT_ACTION:
+ * - TRANSMIT: business as usual.
+ * - MAINTAIN: a hold. We keep storing events in our (persistent)
+ *   queues, but stop streaming them, until the hold lifts: when it
+ *   expires, or when the server sends `{status: 'release'}`. The
+ *   backlog then goes out in order, unless the release also asks us to
+ *   `purge` it. Holds are stored, so they survive reloads.
+ * - DROP: we neither store nor send events, until it expires.
  */
 import { storage } from './browserStorage.js';
 import * as debug from './debugLog.js';
 import * as util from './util.js';
+import type { Logger } from './types.js';
 
 export const EVENT_ACTION = {
   TRANSMIT: 'TRANSMIT',
@@ -38,6 +43,9 @@ export const TIME_LIMIT = {
 
 const DISABLER_STORE = 'disablerState';
 
+// The longest delay setTimeout supports
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
 interface DisablerState {
   action: string;
   expiration: number | null;
@@ -62,6 +70,11 @@ const DEFAULTS: DisablerState = {
 };
 
 let { action, expiration } = DEFAULTS;
+// Lifts a hold when it expires
+let holdTimer: ReturnType<typeof setTimeout> | null = null;
+// Waiting for a hold to lift
+let releaseWaiters: (() => void)[] = [];
+let purgeHandlers: ((logger?: Logger) => Promise<void> | void)[] = [];
 
 export async function init (_defaults: unknown = null) {
   return new Promise<void>((resolve, reject) => {
@@ -76,6 +89,7 @@ export async function init (_defaults: unknown = null) {
         action = state.action || DEFAULTS.action;
         expiration = state.expiration || DEFAULTS.expiration;
         debug.info(`Initialized disabler. action: ${action} expiration: ${new Date(expiration!).toString()}`);
+        scheduleLift();
         resolve();
       });
     }
@@ -90,6 +104,92 @@ export function handleBlockError (error: BlockError) {
     expiration = Date.now() + error.timeLimit;
   }
   storage.set({ [DISABLER_STORE]: { action, expiration } });
+  scheduleLift();
+  if (action !== EVENT_ACTION.MAINTAIN) {
+    wakeReleaseWaiters();
+  }
+}
+
+/**
+ * Lift a hold (MAINTAIN) once it expires. Holds longer than setTimeout
+ * allows are checked again when it fires.
+ */
+function scheduleLift () {
+  if (holdTimer) {
+    clearTimeout(holdTimer);
+    holdTimer = null;
+  }
+  if (action !== EVENT_ACTION.MAINTAIN || expiration === null || expiration === TIME_LIMIT.PERMANENT) {
+    return;
+  }
+  const remaining = expiration - Date.now();
+  if (remaining <= 0) {
+    lift();
+  } else {
+    holdTimer = setTimeout(scheduleLift, Math.min(remaining, MAX_TIMEOUT));
+  }
+}
+
+/**
+ * Go back to transmitting, and wake whatever is waiting for a hold to
+ * lift.
+ */
+function lift () {
+  if (holdTimer) {
+    clearTimeout(holdTimer);
+    holdTimer = null;
+  }
+  action = DEFAULTS.action;
+  expiration = DEFAULTS.expiration;
+  storage.set({ [DISABLER_STORE]: { action, expiration } });
+  wakeReleaseWaiters();
+}
+
+function wakeReleaseWaiters () {
+  const waiters = releaseWaiters;
+  releaseWaiters = [];
+  waiters.forEach(resolve => resolve());
+}
+
+/**
+ * Lift a hold, e.g. when the server sends `{status: 'release'}`. With
+ * `purge`, held events are discarded (see `onPurge`) before streaming
+ * resumes; otherwise they go out in order. A logger passing on its
+ * server's release gives itself as `logger`, so only the events bound
+ * for it are discarded.
+ */
+export async function release ({ purge = false, logger = undefined as Logger | undefined } = {}) {
+  if (action !== EVENT_ACTION.MAINTAIN) {
+    return;
+  }
+  if (purge) {
+    debug.info(logger ? `Discarding events held for ${logger.lo_name ?? logger.name}` : 'Discarding held events');
+    await Promise.all(purgeHandlers.map(handler => handler(logger)));
+  }
+  lift();
+}
+
+/**
+ * Register `handler` to discard held events when a release asks us to
+ * purge them. It is given the logger whose events to discard, or
+ * nothing, for all of them. Returns a function which removes it.
+ */
+export function onPurge (handler: (logger?: Logger) => Promise<void> | void): () => void {
+  purgeHandlers.push(handler);
+  return () => {
+    purgeHandlers = purgeHandlers.filter(h => h !== handler);
+  };
+}
+
+/**
+ * Resolves once we are not holding events. It resolves to true, for
+ * use as a dequeue loop's `shouldDequeue`.
+ */
+export async function waitUntilReleased () {
+  if (action === EVENT_ACTION.MAINTAIN) {
+    await new Promise<void>(resolve => releaseWaiters.push(resolve));
+  }
+  return true;
 }
 
 export function storeEvents () {
@@ -103,11 +203,16 @@ export function streamEvents () {
 /**
  * Determines if a client should retry based on the `expiration` status.
  * This function:
- * 1. Returns `false` if the expiration is permanent.
- * 2. Waits for the expiration to pass, resets `storage` (for future
+ * 1. Waits for a hold (MAINTAIN) to lift, however long it lasts, and
+ *    then returns `true`.
+ * 2. Returns `false` if the expiration is permanent.
+ * 3. Waits for the expiration to pass, resets `storage` (for future
  *    initializations), and then returns `true` to allow a retry.
  */
 export async function retry () {
+  if (action === EVENT_ACTION.MAINTAIN) {
+    return await waitUntilReleased();
+  }
   if (expiration === TIME_LIMIT.PERMANENT) {
     return false;
   }
@@ -0,0 +1,72 @@
+/*
+ * Which events a logger receives.
+ *
+ * By default, every logger gets every event. Loggers passed to
+ * `lo_event.init` as `{ logger, filter }` only get those their filter
+ * accepts:
+ *
+ *   lo_event.init(source, version, [
+ *     websocketLogger(server),                                          // everything
+ *     { logger: reduxLogger(), filter: { exclude: ['browser.*'] } },    // application events
+ *     { logger: consoleLogger(), filter: { events: ['*Error'] } },      // errors only
+ *     { logger: httpLogger(url), filter: { events: ['browser.mouse.*'], sample: 0.1 } }
+ *   ]);
+ *
+ * Lock-field changes are not events, and reach every logger.
+ */
+import type { EventFilter, Logger, LoggerEntry } from './types.js';
+
+/**
+ * A regular expression for event types matching `glob`, where `*`
+ * matches anything, including dots (`browser.*` matches
+ * `browser.mouse.click`).
+ */
+function globToRegExp (glob: string) {
+  const escaped = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+/**
+ * A predicate for `filter`, true for the events it accepts: those
+ * matching one of `events` (by default, all), none of `exclude`, and
+ * `where`, then `sample` of them, at random.
+ */
+export function compileFilter (filter: EventFilter): (event: Record<string, unknown>) => boolean {
+  const include = filter.events?.map(globToRegExp);
+  const exclude = (filter.exclude ?? []).map(globToRegExp);
+  const sample = filter.sample ?? 1;
+  if (sample < 0 || sample > 1) {
+    throw new Error(`sample must be between 0 and 1, not ${sample}`);
+  }
+  return (event) => {
+    const eventType = String(event.event);
+    if (include && !include.some(pattern => pattern.test(eventType))) {
+      return false;
+    }
+    if (exclude.some(pattern => pattern.test(eventType))) {
+      return false;
+    }
+    if (filter.where && !filter.where(event)) {
+      return false;
+    }
+    return sample === 1 || Math.random() < sample;
+  };
+}
+
+/**
+ * Split the loggers passed to `init` into the loggers themselves and
+ * the filters of those which have one.
+ */
+export function resolveLoggers (entries: (Logger | LoggerEntry)[]) {
+  const loggers: Logger[] = [];
+  const filters = new Map<Logger, (event: Record<string, unknown>) => boolean>();
+  for (const entry of entries) {
+    if (typeof entry === 'function') {
+      loggers.push(entry);
+    } else {
+      loggers.push(entry.logger);
+      filters.set(entry.logger, compileFilter(entry.filter));
+    }
+  }
+  return { loggers, filters };
+}
@@ -0,0 +1,285 @@
+/**
+ * A persistent queue for Node.js, backed by an append-only journal.
+ *
+ * This is what `QueueType.PERSISTENT` uses where there is no
+ * IndexedDB (simulators, test harnesses, and other node clients).
+ *
+ * We keep the whole queue in memory, and record every change in a
+ * journal file, one JSON object per line:
+ *   {"e": <id>, "v": <item>, "t": <ms>}   item enqueued at time t
+ *   {"d": <id>}                item dequeued
+ * Ids increase monotonically, and we replay the journal in order on
+ * startup, so insertion order is preserved exactly. The earlier
+ * sqlite3 / indexeddb-js attempt failed precisely at this.
+ *
+ * A crash can leave a partial last line, which we skip on replay. Once
+ * the journal has accumulated enough dequeue records, we compact it:
+ * we write the live items to a temporary file, fsync it, and rename it
+ * over the journal, which is atomic. We do not fsync every append, so
+ * we survive process crashes, but not necessarily power loss.
+ *
+ * The journal lives in `directory`, which defaults to the
+ * `LO_EVENT_QUEUE_DIR` environment variable, or `.lo_event_queue` in
+ * the working directory.
+ *
+ * Only one queue object should use a given journal at a time.
+ */
+import * as debug from './debugLog.js';
+import * as util from './util.js';
+
+type FS = typeof import('fs');
+
+interface Entry {
+  id: number;
+  item: unknown;
+  ts: number | null; // When the item was enqueued
+}
+
+// Compact once we have this many dequeue records, and at least as many
+// as there are live items.
+const COMPACTION_THRESHOLD = 1000;
+
+export interface FileQueueOptions {
+  directory?: string;
+}
+
+function defaultDirectory () {
+  return (typeof process !== 'undefined' && process.env?.LO_EVENT_QUEUE_DIR) || '.lo_event_queue';
+}
+
+export class Queue {
+  private queueName: string;
+  private directory: string;
+  private journalPath: string;
+  private fs: FS | null;
+  private fd: number | null;
+  private entries: Entry[];
+  private nextId: number;
+  private deadRecords: number;
+  // Items enqueued before the journal was loaded.
+  private early: unknown[];
+  private ready: boolean;
+  private loaded: Promise<void>;
+  private resolve: ((value: unknown) => void) | null;
+  // Entries at the head of the queue handed out by `lease`, pending commit
+  private leased: number;
+  // Waiting for the queue not to be empty (see `waitForItem`)
+  private itemWaiters: (() => void)[];
+
+  constructor (queueName: string, { directory = defaultDirectory() }: FileQueueOptions = {}) {
+    this.queueName = queueName;
+    this.directory = directory;
+    this.journalPath = `${directory}/${queueName}.journal`;
+    this.fs = null;
+    this.fd = null;
+    this.entries = [];
+    this.nextId = 0;
+    this.deadRecords = 0;
+    this.early = [];
+    this.ready = false;
+    this.resolve = null;
+    this.leased = 0;
+    this.itemWaiters = [];
+
+    this.enqueue = this.enqueue.bind(this);
+    this.dequeue = this.dequeue.bind(this);
+    this.waitForItem = this.waitForItem.bind(this);
+    this.lease = this.lease.bind(this);
+    this.commit = this.commit.bind(this);
+    this.abort = this.abort.bind(this);
+    this.discard = this.discard.bind(this);
+    this.size = this.size.bind(this);
+    this.byteSize = this.byteSize.bind(this);
+    this.oldestTimestamp = this.oldestTimestamp.bind(this);
+    this.peek = this.peek.bind(this);
+    this.clear = this.clear.bind(this);
+    this.loaded = this.initialize().catch(error => this.loadFailed(error));
+  }
+
+  /**
+   * Load `fs`, replay the journal, and compact it.
+   */
+  async initialize () {
+    this.fs = await import('fs');
+    this.fs.mkdirSync(this.directory, { recursive: true });
+
+    const live = new Map<number, Entry>();
+    if (this.fs.existsSync(this.journalPath)) {
+      const lines = this.fs.readFileSync(this.journalPath, 'utf8').split('\n');
+      for (const line of lines) {
+        if (!line) continue;
+        let record;
+        try {
+          record = JSON.parse(line);
+        } catch (e) {
+          debug.error(`fileQueue: skipping corrupt journal line in ${this.journalPath}`, e);
+          continue;
+        }
+        if ('e' in record) {
+          live.set(record.e, { id: record.e, item: record.v, ts: record.t ?? null });
+          this.nextId = Math.max(this.nextId, record.e + 1);
+        } else if ('d' in record) {
+          live.delete(record.d);
+        }
+      }
+    }
+    this.entries = Array.from(live.values());
+    debug.info(`fileQueue: loaded ${this.entries.length} items from ${this.journalPath}`);
+    this.compact();
+    this.enqueueEarly();
+  }
+
+  /**
+   * If we cannot use the journal (e.g. the directory is not writable),
+   * we still queue items, in memory only.
+   */
+  private loadFailed (error: unknown) {
+    debug.error(`fileQueue: could not open ${this.journalPath}; keeping ${this.queueName} in memory only`, error);
+    this.fs = null;
+    this.fd = null;
+    this.enqueueEarly();
+  }
+
+  private enqueueEarly () {
+    this.ready = true;
+    const early = this.early;
+    this.early = [];
+    early.forEach(item => this.enqueue(item));
+  }
+
+  private write (record: object) {
+    if (this.fd !== null) {
+      this.fs!.writeSync(this.fd, JSON.stringify(record) + '\n');
+    }
+  }
+
+  /**
+   * Rewrite the journal with only the live items.
+   */
+  private compact () {
+    const fs = this.fs;
+    if (!fs) {
+      return;
+    }
+    const tmpPath = `${this.journalPath}.tmp`;
+    const tmp = fs.openSync(tmpPath, 'w');
+    for (const { id, item, ts } of this.entries) {
+      fs.writeSync(tmp, JSON.stringify({ e: id, v: item, t: ts }) + '\n');
+    }
+    fs.fsyncSync(tmp);
+    fs.closeSync(tmp);
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+    }
+    fs.renameSync(tmpPath, this.journalPath);
+    this.fd = fs.openSync(this.journalPath, 'a');
+    this.deadRecords = 0;
+  }
+
+  private remove (entry: Entry) {
+    this.write({ d: entry.id });
+    this.deadRecords++;
+    if (this.deadRecords >= COMPACTION_THRESHOLD && this.deadRecords >= this.entries.length) {
+      this.compact();
+    }
+    return entry.item;
+  }
+
+  enqueue (item: unknown) {
+    if (!this.ready) {
+      this.early.push(item);
+      return;
+    }
+    const entry = { id: this.nextId++, item, ts: Date.now() };
+    this.write({ e: entry.id, v: item, t: entry.ts });
+    if (this.resolve) {
+      const resolve = this.resolve;
+      this.resolve = null;
+      resolve(this.remove(entry));
+    } else {
+      this.entries.push(entry);
+      const waiters = this.itemWaiters;
+      this.itemWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  async dequeue (): Promise<unknown> {
+    await this.loaded;
+    if (this.entries.length > 0) {
+      return this.remove(this.entries.shift()!);
+    }
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+    });
+  }
+
+  /**
+   * Resolves once the queue is not empty.
+   */
+  async waitForItem () {
+    await this.loaded;
+    while (this.entries.length === 0) {
+      await new Promise<void>((resolve) => {
+        this.itemWaiters.push(resolve);
+      });
+    }
+  }
+
+  /**
+   * Hand out up to `max` items from the head of the queue, waiting for
+   * at least one. Nothing is journaled until `commit()`, so leased items
+   * survive a crash.
+   */
+  async lease (max: number): Promise<unknown[]> {
+    await this.waitForItem();
+    this.leased = Math.min(max, this.entries.length);
+    return this.entries.slice(0, this.leased).map(({ item }) => item);
+  }
+
+  commit () {
+    this.entries.splice(0, this.leased).forEach(entry => this.remove(entry));
+    this.leased = 0;
+  }
+
+  abort () {
+    this.leased = 0;
+  }
+
+  // Leased items are in flight, so we never discard them.
+  async discard (predicate: (item: unknown) => boolean = () => true): Promise<unknown> {
+    await this.loaded;
+    const index = this.entries.findIndex(({ item }, i) => i >= this.leased && predicate(item));
+    if (index === -1) {
+      return undefined;
+    }
+    return this.remove(this.entries.splice(index, 1)[0]);
+  }
+
+  async size () {
+    await this.loaded;
+    return this.entries.length;
+  }
+
+  async byteSize () {
+    await this.loaded;
+    return this.entries.reduce((total, { item }) => total + util.itemSize(item), 0);
+  }
+
+  async oldestTimestamp () {
+    await this.loaded;
+    return this.entries.length > 0 ? this.entries[0].ts : null;
+  }
+
+  async peek (n = 1) {
+    await this.loaded;
+    return this.entries.slice(0, n).map(({ item }) => item);
+  }
+
+  async clear () {
+    await this.loaded;
+    this.entries = [];
+    this.leased = 0;
+    this.compact();
+  }
+}
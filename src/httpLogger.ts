@@ -0,0 +1,274 @@
+import { Queue, QueueType, queueOverflowEvent } from './queue.js';
+import * as disabler from './disabler.js';
+import * as util from './util.js';
+import * as debug from './debugLog.js';
+import { lockFieldsState, applyLockEvent, headerSnapshot, withHeaders } from './lockFields.js';
+import type { Logger, QueueLimits } from './types.js';
+
+export interface HttpLoggerOptions {
+  batchSize?: number;
+  batchInterval?: number;
+  headers?: Record<string, string>;
+  queueType?: string;
+  queueLimits?: QueueLimits;
+}
+
+export function httpLogger (
+  endpoint: string = '/webapi/',
+  {
+    batchSize = 50,
+    batchInterval = 1000,
+    headers = {},
+    queueType = QueueType.AUTODETECT,
+    queueLimits = {}
+  }: HttpLoggerOptions = {}
+): Logger {
+  /*
+    This logger sends events to the server with plain HTTP POSTs. It is
+    a fallback for networks (e.g. many school networks) which block
+    WebSockets, and for applications which only send occasional events.
+
+    Events are batched from our own queue (named after `endpoint`, so
+    loggers for other endpoints have their own) and sent as NDJSON: one JSON
+    object per line. A batch goes out once `batchSize` events are
+    waiting, or `batchInterval` ms after the first. Its events stay in
+    the queue until the server accepts it, so a reload or crash
+    mid-POST loses nothing.
+
+    The first line of each batch is a `session_header` (see
+    lockFields.ts) with the fields its first event was logged under,
+    since, unlike the web socket, we have no connection to hold them.
+    Another header comes before any event logged under different
+    fields, e.g. after an unlock, or a new student. Each batch is
+    self-contained.
+
+    The server may respond with NDJSON (or a single JSON object). We
+    honor the same `blocklist` semantics as the websocket logger: we
+    hold on to a `BlockError` and raise it the next time we are called.
+    While the server holds our events (MAINTAIN; see disabler.ts), we
+    keep queuing them, but post nothing until the hold expires, or is
+    released.
+  */
+  const queue = new Queue(`httpLogger-${endpoint.replace(/[^A-Za-z0-9]+/g, '_')}`, {
+    queueType,
+    limits: queueLimits,
+    overflowEvent: (info) => JSON.stringify(queueOverflowEvent(info))
+  });
+  let blockerror: disabler.BlockError | null = null;
+  // Our server's release of its hold, applied before our next batch:
+  // not while one is taken from our queue, which a purge clears
+  let releaseRequest: { purge: boolean } | null = null;
+  const lockState = lockFieldsState();
+  // What we tag events with, from `lockState`
+  let header: string | null = null;
+
+  let failures = 0;
+  // Whether a batch is being posted
+  let posting = false;
+  // Set by `flush()`, to post what is waiting without waiting for a
+  // full batch
+  let hurry = false;
+  // Aborted by `stop()`, to give up on a POST in progress
+  let stopController = new AbortController();
+  let removePurgeListener: (() => void) | null = null;
+
+  function calculateExponentialBackoff (n: number) {
+    return Math.min(1000 * Math.pow(2, n), 1000 * 60 * 15);
+  }
+
+  function encodeBatch (items: unknown[]) {
+    return withHeaders(items, header).join('\n') + '\n';
+  }
+
+  function receiveMessage (text: string) {
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      let response;
+      try {
+        response = JSON.parse(line);
+      } catch (e) {
+        debug.info(`httpLogger: could not parse server response: ${line}`);
+        continue;
+      }
+      switch (response.status) {
+        case 'blocklist':
+          debug.info('Received block error from server');
+          blockerror = new disabler.BlockError(
+            response.message,
+            response.time_limit,
+            response.action
+          );
+          break;
+        case 'release':
+          debug.info('Server released its hold on our events');
+          releaseRequest = { purge: response.purge === true };
+          break;
+        case 'ok':
+          break;
+        default:
+          debug.info(`Received response we do not yet handle: ${JSON.stringify(response)}`);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Lift the hold our server released, if it has, discarding what we
+   * hold first if it asked us to.
+   */
+  async function releaseHold () {
+    const request = releaseRequest;
+    releaseRequest = null;
+    if (!request) {
+      return;
+    }
+    try {
+      await disabler.release({ purge: request.purge, logger: httpLogData });
+    } catch (e) {
+      debug.error('httpLogger: could not release the hold on our events', e);
+    }
+  }
+
+  /**
+   * Resolves once there is a batch to post: `batchSize` events, or
+   * whatever is waiting `batchInterval` ms after the first.
+   */
+  async function batchReady () {
+    await releaseHold();
+    await disabler.waitUntilReleased();
+    await queue.waitForItem();
+    await util.waitFor(async () => hurry || (await queue.size()) >= batchSize, batchInterval);
+    return true;
+  }
+
+  /**
+   * POST a batch, retrying with exponential backoff until the server
+   * accepts it. We never drop a batch on a transient failure; if we
+   * are stopped first, we throw, and it stays in our queue to be sent
+   * when we start again. One the server rejects outright (see
+   * `util.isRejection`) goes to the dead-letter store, so it does not
+   * hold up the rest.
+   */
+  async function postEvents (items: unknown) {
+    posting = true;
+    try {
+      await postUntilAccepted(items as unknown[]);
+    } finally {
+      posting = false;
+    }
+  }
+
+  async function postUntilAccepted (items: unknown[]) {
+    const body = encodeBatch(items);
+    while (true) {
+      if (stopController.signal.aborted) {
+        throw new Error('httpLogger: stopped');
+      }
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-ndjson', ...headers },
+          signal: stopController.signal,
+          body
+        });
+        if (response.ok) {
+          failures = 0;
+          receiveMessage(await response.text());
+          return;
+        }
+        if (util.isRejection(response.status)) {
+          const error = new Error(`httpLogger: server rejected a batch (${response.status}): ${await response.text()}`);
+          debug.error(`${error.message}; moving it to the dead-letter store`);
+          await Promise.all(items.map(item => queue.deadLetter(item, error)));
+          return;
+        }
+        debug.error(`httpLogger: server responded with status ${response.status}`);
+      } catch (e) {
+        if (stopController.signal.aborted) {
+          continue;
+        }
+        debug.error('httpLogger: could not reach server', e);
+      }
+      failures++;
+      await util.delay(calculateExponentialBackoff(failures), stopController.signal);
+    }
+  }
+
+  function checkForBlockError (data: string) {
+    if (blockerror) {
+      const b = blockerror;
+      blockerror = null;
+      if (b.action === disabler.EVENT_ACTION.MAINTAIN) {
+        queue.enqueue({ header, data });
+      }
+      throw b;
+    }
+  }
+
+  function httpLogData (data: string) {
+    checkForBlockError(data);
+    queue.enqueue({ header, data });
+  }
+
+  httpLogData.init = async function () {
+    if (typeof fetch === 'undefined') {
+      debug.error('httpLogger: fetch is not available in this environment');
+      return;
+    }
+    stopController = new AbortController();
+    removePurgeListener?.();
+    removePurgeListener = disabler.onPurge(async (logger) => {
+      if (!logger || logger === httpLogData) {
+        await queue.clear();
+      }
+    });
+    queue.startDequeueLoop({
+      shouldDequeue: batchReady,
+      onDequeue: postEvents,
+      batchSize
+    });
+  };
+
+  // Changes apply to events logged from here on
+  httpLogData.setField = function (data: string) {
+    applyLockEvent(lockState, JSON.parse(data));
+    header = headerSnapshot(lockState);
+  };
+
+  // Everything not yet accepted is still in our queue, including a
+  // batch being posted.
+  httpLogData.drain = function () {
+    return withHeaders(queue.drain());
+  };
+
+  httpLogData.flush = async function (timeoutMs: number) {
+    hurry = true;
+    try {
+      return await util.waitFor(async () => !posting && (await queue.size()) === 0, timeoutMs);
+    } finally {
+      hurry = false;
+    }
+  };
+
+  // Anything not yet posted is kept, and sent once we are started again
+  httpLogData.stop = async function () {
+    stopController.abort();
+    removePurgeListener?.();
+    removePurgeListener = null;
+    await queue.stop();
+  };
+
+  // `connected` means our last POST succeeded
+  httpLogData.getStatus = async function () {
+    return {
+      connected: failures === 0,
+      queue: await queue.status(),
+      posting
+    };
+  };
+
+  httpLogData.lo_name = 'HTTP Logger';
+  httpLogData.lo_id = 'http_logger';
+
+  return httpLogData as Logger;
+}
@@ -1,9 +1,8 @@
 /**
  * This files functions as a Queue using an indexeddb backend.
  *
- * If we are operating in a browser environment, we will use
- * the built-in indexeddb. In node environments, we will use
- * packages that mirror the functionality of indexeddb.
+ * This is only used in browser environments, with the built-in
+ * indexeddb. In node environments, `fileQueue` takes its place.
  *
  * Each item can be added to the end of the queue with `enqueue(item)`.
  * Items can be retrieved from the queue with `item = await dequeue()`.
@@ -26,10 +25,19 @@ import * as util from './util.js';
 
 const ENQUEUE = 'enqueue';
 const DEQUEUE = 'dequeue';
+const WAIT = 'wait';
+const LEASE = 'lease';
+const COMMIT = 'commit';
+const DISCARD = 'discard';
+const SIZE = 'size';
+const PEEK = 'peek';
+const CLEAR = 'clear';
 
 interface DBOperation {
   operation: string;
-  payload?: { payload: unknown };
+  payload?: { payload: unknown; ts?: number };
+  predicate?: (item: unknown) => boolean;
+  count?: number;
   resolve?: (value: unknown) => void;
   reject?: (reason?: unknown) => void;
 }
@@ -39,6 +47,18 @@ export class Queue {
   private dbOperationQueue: DBOperation[];
   private nextDBOperationPromise: ((value: DBOperation) => void) | null;
   private nextItemPromise: ((value: unknown) => void) | null;
+  // Keys of the records handed out by `lease`, pending commit, and
+  // their size
+  private leasedKeys: IDBValidKey[];
+  private leasedBytes: number;
+  // What the records add up to (see `byteSize`), or `null` until we
+  // first count them
+  private bytes: number | null;
+  // Re-run the leases and waits which found the queue empty, once an
+  // item is added
+  private itemWaiters: (() => void)[];
+  // Tells the other tabs sharing this database about new items
+  private channel: BroadcastChannel | null;
   private queueName: string;
   private dbOperationDispatch: Record<string, (op: DBOperation) => Promise<void>>;
   nextDBOperation: () => AsyncGenerator<DBOperation>;
@@ -48,20 +68,53 @@ export class Queue {
     this.dbOperationQueue = [];
     this.nextDBOperationPromise = null;
     this.nextItemPromise = null;
+    this.leasedKeys = [];
+    this.leasedBytes = 0;
+    this.bytes = null;
+    this.itemWaiters = [];
     this.queueName = queueName;
+    this.channel = null;
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`lo_event-queue:${queueName}`);
+      this.channel.onmessage = (message) => this.receiveChange(message.data);
+    }
 
     this.initialize = this.initialize.bind(this);
     this.addItemToDB = this.addItemToDB.bind(this);
     this.nextItemFromDB = this.nextItemFromDB.bind(this);
+    this.waitForItemInDB = this.waitForItemInDB.bind(this);
+    this.leaseItemsFromDB = this.leaseItemsFromDB.bind(this);
+    this.commitLeaseToDB = this.commitLeaseToDB.bind(this);
+    this.discardItemFromDB = this.discardItemFromDB.bind(this);
+    this.countItemsInDB = this.countItemsInDB.bind(this);
+    this.peekItemsFromDB = this.peekItemsFromDB.bind(this);
+    this.clearDB = this.clearDB.bind(this);
     this.nextDBOperation = util.once(this._nextDBOperation.bind(this));
     this.startProcessing = this.startProcessing.bind(this);
     this.addItemToDBOperationQueue = this.addItemToDBOperationQueue.bind(this);
     this.enqueue = this.enqueue.bind(this);
     this.dequeue = this.dequeue.bind(this);
+    this.waitForItem = this.waitForItem.bind(this);
+    this.lease = this.lease.bind(this);
+    this.commit = this.commit.bind(this);
+    this.abort = this.abort.bind(this);
+    this.discard = this.discard.bind(this);
+    this.size = this.size.bind(this);
+    this.byteSize = this.byteSize.bind(this);
+    this.oldestTimestamp = this.oldestTimestamp.bind(this);
+    this.peek = this.peek.bind(this);
+    this.clear = this.clear.bind(this);
 
     this.dbOperationDispatch = {
       [ENQUEUE]: this.addItemToDB,
-      [DEQUEUE]: this.nextItemFromDB
+      [DEQUEUE]: this.nextItemFromDB,
+      [WAIT]: this.waitForItemInDB,
+      [LEASE]: this.leaseItemsFromDB,
+      [COMMIT]: this.commitLeaseToDB,
+      [DISCARD]: this.discardItemFromDB,
+      [SIZE]: this.countItemsInDB,
+      [PEEK]: this.peekItemsFromDB,
+      [CLEAR]: this.clearDB
     };
     this.initialize();
   }
@@ -73,10 +126,10 @@ export class Queue {
   async initialize () {
     let request;
     if (typeof indexedDB === 'undefined') {
-      // Node.js persistent queue is not yet supported.
+      // Node.js uses fileQueue instead.
       // The sqlite3/indexeddb-js fallback was broken (autoIncrement
       // unsupported, keys returned out of order) and the imports
-      // break browser bundlers. Use QueueType.IN_MEMORY for now.
+      // break browser bundlers.
       //
       // To restore Node support, install sqlite3 and indexeddb-js
       // and uncomment:
@@ -87,7 +140,7 @@ export class Queue {
       //   request = scope.indexedDB.open(this.queueName);
       throw new Error(
         'IndexedDB is not available in this environment. ' +
-        'Use QueueType.IN_MEMORY for Node.js.'
+        'Use QueueType.FILE or QueueType.IN_MEMORY for Node.js.'
       );
     } else {
       debug.info('idbQueue: Using browser consoleDB');
@@ -133,6 +186,11 @@ export class Queue {
       // successful request added
     };
 
+    transaction.oncomplete = () => {
+      this.notifyItemAdded();
+      this.changeBytes(util.itemSize(payload.payload), true);
+    };
+
     request.onerror = () => {
       if (request.error?.name === 'ConstraintError') {
         debug.error('IDBQUEUE ERROR: Item already exists', request.error);
@@ -142,6 +200,41 @@ export class Queue {
     };
   }
 
+  /**
+   * Keep our running byte count, and that of other tabs sharing the
+   * database, up to date.
+   */
+  private changeBytes (delta: number, added = false) {
+    if (this.bytes !== null) {
+      this.bytes += delta;
+    }
+    this.channel?.postMessage({ bytes: delta, added });
+  }
+
+  /**
+   * Another tab changed the database.
+   */
+  private receiveChange ({ bytes, added, cleared }: { bytes?: number; added?: boolean; cleared?: boolean }) {
+    if (cleared) {
+      this.bytes = 0;
+    } else if (this.bytes !== null && bytes !== undefined) {
+      this.bytes += bytes;
+    }
+    if (added) {
+      this.notifyItemAdded();
+    }
+  }
+
+  /**
+   * Wake up everything waiting on an empty queue. Items may be added by
+   * this tab, or by another tab sharing the database.
+   */
+  private notifyItemAdded () {
+    const waiters = this.itemWaiters;
+    this.itemWaiters = [];
+    waiters.forEach(retry => retry());
+  }
+
   /**
    * Perform transaction to fetch next item in indexeddb
    */
@@ -159,6 +252,7 @@ export class Queue {
         const deleteRequest = objectStore.delete(cursor.key);
 
         deleteRequest.onsuccess = () => {
+          this.changeBytes(-util.itemSize(item.payload));
           resolve!(item.payload);
         };
 
@@ -180,6 +274,180 @@ export class Queue {
     };
   }
 
+  /**
+   * Perform transaction to check whether there are any items. If not,
+   * we run the operation again once an item is added.
+   */
+  async waitForItemInDB (op: DBOperation) {
+    const { resolve, reject } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readonly');
+    const request = transaction.objectStore(this.queueName).count();
+    request.onsuccess = () => {
+      if (request.result > 0) {
+        resolve!(undefined);
+      } else {
+        this.itemWaiters.push(() => this.addItemToDBOperationQueue(op));
+      }
+    };
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error counting items in the queue:', request.error);
+      reject!(request.error);
+    };
+  }
+
+  /**
+   * Perform transaction to read (without removing) up to `op.count`
+   * items, and remember their keys for `commitLeaseToDB`. If the queue
+   * is empty, we run the operation again once an item is added.
+   */
+  async leaseItemsFromDB (op: DBOperation) {
+    const { resolve, reject, count = 1 } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readonly');
+    const request = transaction.objectStore(this.queueName).openCursor();
+    const keys: IDBValidKey[] = [];
+    const items: unknown[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && items.length < count) {
+        keys.push(cursor.primaryKey);
+        items.push(cursor.value.payload);
+        cursor.continue();
+      } else if (items.length > 0) {
+        this.leasedKeys = keys;
+        this.leasedBytes = items.reduce<number>((total, item) => total + util.itemSize(item), 0);
+        resolve!(items);
+      } else {
+        this.itemWaiters.push(() => this.addItemToDBOperationQueue(op));
+      }
+    };
+
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error reading queue cursor:', request.error);
+      reject!(request.error);
+    };
+  }
+
+  /**
+   * Perform transaction to remove the leased items
+   */
+  async commitLeaseToDB (op: DBOperation) {
+    const { resolve, reject } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readwrite');
+    const objectStore = transaction.objectStore(this.queueName);
+    this.leasedKeys.forEach(key => objectStore.delete(key));
+    const bytes = this.leasedBytes;
+    this.leasedKeys = [];
+    this.leasedBytes = 0;
+
+    transaction.oncomplete = () => {
+      this.changeBytes(-bytes);
+      resolve!(undefined);
+    };
+    transaction.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error removing leased items from the queue:', transaction.error);
+      reject!(transaction.error);
+    };
+  }
+
+  /**
+   * Perform transaction to remove the oldest item matching
+   * `predicate`. Resolves to `undefined` if there is none. Leased
+   * items are in flight, so we skip them.
+   */
+  async discardItemFromDB (op: DBOperation) {
+    const { resolve, reject, predicate = () => true } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readwrite');
+    const objectStore = transaction.objectStore(this.queueName);
+    const request = objectStore.openCursor();
+    const leased = new Set(this.leasedKeys);
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve!(undefined);
+      } else if (!leased.has(cursor.primaryKey) && predicate(cursor.value.payload)) {
+        const item = cursor.value;
+        const deleteRequest = cursor.delete();
+        deleteRequest.onsuccess = () => {
+          this.changeBytes(-util.itemSize(item.payload));
+          resolve!(item.payload);
+        };
+        deleteRequest.onerror = () => {
+          debug.error('IDBQUEUE ERROR: Error discarding item from the queue:', deleteRequest.error);
+          reject!(deleteRequest.error);
+        };
+      } else {
+        cursor.continue();
+      }
+    };
+
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error reading queue cursor:', request.error);
+      reject!(request.error);
+    };
+  }
+
+  /**
+   * Perform transaction to count the items in indexeddb
+   */
+  async countItemsInDB (op: DBOperation) {
+    const { resolve, reject } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readonly');
+    const request = transaction.objectStore(this.queueName).count();
+    request.onsuccess = () => resolve!(request.result);
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error counting items in the queue:', request.error);
+      reject!(request.error);
+    };
+  }
+
+  /**
+   * Perform transaction to read (without removing) the first
+   * `op.count` records in indexeddb. Resolves to the raw records,
+   * `{ payload, ts }`.
+   */
+  async peekItemsFromDB (op: DBOperation) {
+    const { resolve, reject, count = 1 } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readonly');
+    const request = transaction.objectStore(this.queueName).openCursor();
+    const records: { payload: unknown; ts?: number }[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && records.length < count) {
+        records.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve!(records);
+      }
+    };
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error reading queue cursor:', request.error);
+      reject!(request.error);
+    };
+  }
+
+  /**
+   * Perform transaction to remove every item in indexeddb
+   */
+  async clearDB (op: DBOperation) {
+    const { resolve, reject } = op;
+    const transaction = this.db!.transaction([this.queueName], 'readwrite');
+    const request = transaction.objectStore(this.queueName).clear();
+    this.leasedKeys = [];
+    this.leasedBytes = 0;
+    request.onsuccess = () => {
+      this.bytes = 0;
+      this.channel?.postMessage({ cleared: true });
+      resolve!(undefined);
+    };
+    request.onerror = () => {
+      debug.error('IDBQUEUE ERROR: Error clearing the queue:', request.error);
+      reject!(request.error);
+    };
+  }
+
   /**
    * The processing loop continually waits for the next
    * dbOperation to come using the following generator.
@@ -233,7 +501,7 @@ export class Queue {
     debug.info(`idbQueue: Enqueuing item ${item}`);
     const payload = {
       operation: ENQUEUE,
-      payload: { payload: item }
+      payload: { payload: item, ts: Date.now() }
     };
     this.addItemToDBOperationQueue(payload);
   }
@@ -249,4 +517,85 @@ export class Queue {
       this.addItemToDBOperationQueue(payload);
     });
   }
+
+  /**
+   * Resolves once the queue is not empty.
+   */
+  waitForItem () {
+    return this.runOperation<void>(WAIT);
+  }
+
+  /**
+   * This function appends a lease message to the operation stream,
+   * and returns up to `max` items, waiting for at least one. They stay
+   * in the database until `commit()`.
+   */
+  lease (max: number): Promise<unknown[]> {
+    return this.runOperation<unknown[]>(LEASE, { count: max });
+  }
+
+  commit () {
+    return this.runOperation<void>(COMMIT);
+  }
+
+  // The leased items are still at the head of the database.
+  abort () {
+    this.leasedKeys = [];
+    this.leasedBytes = 0;
+  }
+
+  /**
+   * This function appends a discard message to the operation
+   * stream and returns the discarded item, if any.
+   */
+  discard (predicate?: (item: unknown) => boolean) {
+    return new Promise((resolve, reject) => {
+      const payload = { operation: DISCARD, predicate, resolve, reject };
+      this.addItemToDBOperationQueue(payload);
+    });
+  }
+
+  // helper function for operations which just return a result
+  private runOperation<T> (operation: string, extra: Partial<DBOperation> = {}): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const payload = { operation, ...extra, resolve: resolve as (value: unknown) => void, reject };
+      this.addItemToDBOperationQueue(payload);
+    });
+  }
+
+  private peekRecords (count: number) {
+    return this.runOperation<{ payload: unknown; ts?: number }[]>(PEEK, { count });
+  }
+
+  size () {
+    return this.runOperation<number>(SIZE);
+  }
+
+  /**
+   * We read every record once, to count a backlog left by earlier
+   * pages, and then keep a running count. Either way, we go through
+   * the database, so changes queued before we were asked are counted.
+   */
+  async byteSize () {
+    if (this.bytes === null) {
+      const records = await this.peekRecords(Infinity);
+      this.bytes ??= records.reduce((total, { payload }) => total + util.itemSize(payload), 0);
+    } else {
+      await this.size();
+    }
+    return this.bytes!;
+  }
+
+  async oldestTimestamp () {
+    const [oldest] = await this.peekRecords(1);
+    return oldest?.ts ?? null;
+  }
+
+  async peek (n = 1) {
+    return (await this.peekRecords(n)).map(({ payload }) => payload);
+  }
+
+  clear () {
+    return this.runOperation<void>(CLEAR);
+  }
 }
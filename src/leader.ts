@@ -0,0 +1,94 @@
+/*
+ * Leader election across browser tabs.
+ *
+ * Persistent queues in IndexedDB are shared by every tab on the same
+ * origin, but each tab runs its own lo_event. If every tab drained the
+ * shared queue, they would race on the same records, duplicating or
+ * interleaving events. Instead, one tab leads: it drains the queue
+ * (and owns the web socket), while the others only enqueue.
+ *
+ * We use the Web Locks API. The leader holds an exclusive lock until it
+ * resigns (e.g. its queue is stopped), or the browser releases it when
+ * the tab closes or crashes, at which point the next waiting tab takes
+ * over.
+ *
+ * Where Web Locks are unavailable (node, very old browsers), there is
+ * nothing to coordinate with, and every caller leads immediately.
+ */
+import * as debug from './debugLog.js';
+
+interface Leadership {
+  promise: Promise<void>;
+  resign: () => void;
+}
+
+const leaderships = new Map<string, Leadership>();
+const held = new Set<string>();
+
+function locks (): LockManager | null {
+  return (typeof navigator !== 'undefined' && navigator.locks) || null;
+}
+
+/**
+ * Resolves once this tab leads `name`. We then lead until we `resign`,
+ * or the page goes away. Calling this again for the same name returns
+ * the same promise.
+ */
+export function waitForLeadership (name: string): Promise<void> {
+  let leadership = leaderships.get(name);
+  if (!leadership) {
+    let resigned = false;
+    let release = () => {
+      resigned = true;
+    };
+    const promise = new Promise<void>((resolve) => {
+      const lockManager = locks();
+      const become = () => {
+        held.add(name);
+        debug.info(`leader: this tab now leads ${name}`);
+        resolve();
+      };
+      if (!lockManager) {
+        become();
+        return;
+      }
+      lockManager.request(`lo_event:${name}`, () => {
+        // We resigned while waiting; let the next tab have it
+        if (resigned) {
+          return;
+        }
+        become();
+        // We hold the lock until this resolves (see `resign`).
+        return new Promise<void>((done) => {
+          release = done;
+        });
+      });
+    });
+    leadership = { promise, resign: () => release() };
+    leaderships.set(name, leadership);
+  }
+  return leadership.promise;
+}
+
+/**
+ * Stop leading `name`, or waiting to, so another tab can take over.
+ * We may `waitForLeadership` again later.
+ */
+export function resign (name: string) {
+  const leadership = leaderships.get(name);
+  if (!leadership) {
+    return;
+  }
+  leaderships.delete(name);
+  if (held.delete(name)) {
+    debug.info(`leader: this tab no longer leads ${name}`);
+  }
+  leadership.resign();
+}
+
+/**
+ * Whether this tab currently leads `name`.
+ */
+export function isLeader (name: string) {
+  return held.has(name);
+}
@@ -2,16 +2,49 @@
   Logging library for Learning Observer clients
 */
 
-import { timestampEvent, mergeMetadata } from './util.js';
+import { mergeMetadata } from './util.js';
 import { getBrowserInfo } from './metadata/browserinfo.js';
 import * as Queue from './queue.js';
 import * as disabler from './disabler.js';
 import * as debug from './debugLog.js';
 import * as util from './util.js';
-import type { Logger, MetadataTask } from './types.js';
+import * as beacon from './beacon.js';
+import * as schema from './schema.js';
+import * as xapi from './xapi.js';
+import * as caliper from './caliper.js';
+import { resolveLoggers, compileFilter } from './eventFilter.js';
+import { createRedactor } from './redact.js';
+import { createConsent, CONSENT_EVENT } from './consent.js';
+import type { Consent } from './consent.js';
+import { LOCK_EVENTS, lockFieldsState, applyLockEvent, sessionHeader, isHeaderLine } from './lockFields.js';
+import type { Logger, LoggerEntry, LoggerStatus, LogEventOptions, ConsentOptions, MetadataTask, Middleware, QueueLimits, RedactionOptions, TypedEventLogger, UseOptions } from './types.js';
 import type { LogDestination } from './debugLog.js';
 
 export const QueueType = Queue.QueueType;
+export const OVERFLOW_POLICY = Queue.OVERFLOW_POLICY;
+export const VALIDATION_MODE = schema.VALIDATION_MODE;
+export { registerSchema, unregisterSchema, SchemaValidationError } from './schema.js';
+
+/**
+ * Priorities for `logEvent`, most important first. Each has its own
+ * lane in our queue, and we always deliver more important events
+ * first, so a submission is not stuck behind a backlog of mouse
+ * events after a reconnect. If the queue overflows, we discard
+ * telemetry first.
+ */
+export const PRIORITY = {
+  CRITICAL: 'critical', // e.g. submissions, logins
+  NORMAL: 'normal',
+  TELEMETRY: 'telemetry' // e.g. browser events from `subscribeToEvents`
+} as const;
+
+// Browser events which default to telemetry. Keystrokes, text input,
+// and clipboard events are how we see students write, so they are not
+// among them.
+const isTelemetry = compileFilter({
+  events: ['browser.*'],
+  exclude: ['browser.key.*', 'browser.composition.*', 'browser.clipboard.*', 'browser.generic.input', 'browser.generic.change']
+});
 
 // We implement this as something like an FSM.
 const INIT_STATES = {
@@ -22,42 +55,6 @@ const INIT_STATES = {
   ERROR: 'ERROR' // Something went very, very wrong
 } as const;
 
-let initialized: string = INIT_STATES.NOT_STARTED; // Current FSM state
-let currentState: Promise<unknown> = Promise.resolve(); // promise pipeline to ensure we handle all initialization
-
-
-let loggersEnabled: Logger[] = []; // A list of all loggers which should receive events.
-let queue: Queue.Queue;
-let pendingSource: string;
-let pendingVersion: string;
-let pendingMetadata: MetadataTask[] = [];
-
-function isInitialized () {
-  return initialized === INIT_STATES.READY;
-}
-
-/**
- * Collect all enabled loggers with an init function, call it,
- * and wait for all of them to finish initializing. We add this
- * function to our `currentState` pipeline to ensure loggers
- * are ready to go before we send events.
- */
-async function initializeLoggers () {
-  debug.info('initializing loggers');
-  const initializedLoggers = loggersEnabled
-    .filter(logger => typeof logger.init === 'function') // Filter out loggers without .init property
-    .map(logger => logger.init!()); // Call .init() on each logger, which may return a promise
-
-  try {
-    await Promise.all(initializedLoggers);
-    debug.info('Loggers initialized!');
-    initialized = INIT_STATES.LOGGERS_READY;
-  } catch (error) {
-    initialized = INIT_STATES.ERROR;
-    debug.error('Error resolving logger initializers:', error);
-  }
-}
-
 /**
  * Executes and compiles metadata tasks into a single metadata object.
  *
@@ -79,164 +76,912 @@ export async function compileMetadata(metadataTasks: MetadataTask[]) {
   return results.filter((r): r is Record<string, unknown> => r !== null);
 }
 
-
 /**
- * Set specific key/value pairs using the `lock_fields`
- * event. We use this to set specific fields that we want
- * included overall for subsequent events to prevent
- * sending the same information in each event.
- *
- * This is useful for items such as `source` and `version`
- * which should be the same for every event.
- *
- * This function works even after we are initialized and
- * processing items from the queue (INIT_STATES.READY).
- *
- * Each individual logger should keep track of state and
- * handle their respecitive reconnects properly.
+ * Pass `event` through each step of `chain` in turn. Returns `null` if
+ * one drops it, or fails: an event a step could not handle (e.g. while
+ * redacting it) is safer dropped than sent on as it is.
  */
-export function lockFields (data: Record<string, unknown>[]) {
-  currentState = currentState.then(
-    () => lockFieldsAsync(data)
-  );
+function runMiddleware (chain: Middleware[], event: Record<string, unknown>) {
+  let current: Record<string, unknown> | null = event;
+  for (const middleware of chain) {
+    try {
+      current = middleware(current);
+    } catch (error) {
+      debug.error(`Middleware failed on ${event.event}; dropping it:`, error);
+      return null;
+    }
+    if (!current) {
+      return null;
+    }
+  }
+  return current;
 }
 
 /**
- * Runs and awaits for all loggers to run their `setField` command
+ * When `event` was logged, as an ISO timestamp (see `timestampEvent`).
  */
-async function lockFieldsAsync (data: Record<string, unknown>[]) {
-  const payload = { fields: await mergeMetadata(data), event: 'lock_fields' };
-  timestampEvent(payload);
-  const authpromises = loggersEnabled
-    .filter(logger => typeof logger.setField === 'function')
-    .map(logger => logger.setField!(JSON.stringify(payload)));
-
-  await Promise.all(authpromises);
+function loggedAt (event: unknown) {
+  const metadata = (event as { metadata?: { iso_ts?: string } }).metadata;
+  return metadata?.iso_ts ?? '';
 }
 
-// TODO: We should consider specifying a set of verbs, nouns, etc. we
-// might use, and outlining what can be expected in the protocol
-// TODO: We should consider structing / destructing here
-export function init (
-  source: string,
-  version: string,
-  loggers: Logger[],
-  {
-    debugLevel = debug.LEVEL.NONE as string,
-    debugDest = [debug.LOG_OUTPUT.CONSOLE] as LogDestination[],
-    useDisabler = true,
-    queueType = Queue.QueueType.AUTODETECT as string,
-    sendBrowserInfo = false,
-    verboseEvents = false,
-    metadata = [] as MetadataTask[],
-  } = {}
-) {
-  if (!source || typeof source !== 'string') throw new Error('source must be a non-null string');
-  if (!version || typeof version !== 'string') throw new Error('version must be a non-null string');
-
-  util.setVerboseEvents(verboseEvents);
-  queue = new Queue.Queue('LOEvent', { queueType });
-
-  debug.setLevel(debugLevel);
-  debug.setLogOutputs(debugDest);
-  if (useDisabler) {
-    currentState = currentState.then(() => disabler.init(useDisabler));
-  }
-
-  loggersEnabled = loggers;
-  initialized = INIT_STATES.IN_PROGRESS;
-  pendingSource = source;
-  pendingVersion = version;
-  pendingMetadata = metadata;
-  currentState = currentState.then(initializeLoggers);
-  if(sendBrowserInfo) {
-    // In the future, some or all of this might be sent on every
-    // reconnect
-    logEvent("BROWSER_INFO", getBrowserInfo());
+/**
+ * Note which paths of `event` we redacted (see redact.ts), if any.
+ */
+function recordRedactions (event: Record<string, unknown>, redacted: string[]) {
+  if (redacted.length > 0) {
+    event.metadata = { ...(event.metadata as Record<string, unknown> | undefined), redacted };
   }
 }
 
 /**
- * Begin dequeuing and streaming events.
- *
- * This should be called after init() and any preauth lockFields()
- * calls. Source/version and metadata are sent here so that preauth
- * fields (set between init() and go()) are transmitted first.
- *
- * Typical usage:
- *   lo_event.init(source, version, loggers, options);
- *   lo_event.lockFields([{ preauth_type: 'test' }]);   // sent first
- *   lo_event.lockFields([{ postauth: 'data' }]);       // sent second
- *   lo_event.go();  // source/version sent here, then streaming begins
+ * A `resetSession` not yet applied: the fields it locks, and the events
+ * logged since, which wait for it.
  */
-export function go () {
-  lockFields([{ source: pendingSource, version: pendingVersion }]);
-  currentState = currentState.then(async () => {
-    const results = await compileMetadata(pendingMetadata);
-    await lockFieldsAsync(results);
-  });
-  currentState = currentState.then(() => {
-    if (initialized === INIT_STATES.ERROR) {
-      debug.error('Cannot start dequeue loop: logger initialization failed');
-      return;
-    }
-    initialized = INIT_STATES.READY;
-    queue.startDequeueLoop({
-      initialize: isInitialized,
-      shouldDequeue: disabler.retry,
-      onDequeue: sendEvent
-    });
-  });
+interface PendingReset {
+  fields: Record<string, unknown>;
+  events: { event: Record<string, unknown>; lane: string }[];
 }
 
-function sendEvent (event: unknown) {
-  const jsonEncodedEvent = JSON.stringify(event);
-  for (const logger of loggersEnabled) {
+/**
+ * One lo_event: its own queue, lifecycle, session, and locked fields.
+ * The module's own functions (`init`, `logEvent`, ...) are the default
+ * instance; see `createLoEvent` for more.
+ */
+function createInstance (queueName: string | null, eventSession: util.EventSession) {
+  let initialized: string = INIT_STATES.NOT_STARTED; // Current FSM state
+  let currentState: Promise<unknown> = Promise.resolve(); // promise pipeline to ensure we handle all initialization
+
+
+  let loggersEnabled: Logger[] = []; // A list of all loggers which should receive events.
+  let loggerFilters = new Map<Logger, (event: Record<string, unknown>) => boolean>(); // Which events each gets (see eventFilter.ts)
+  let purgedBefore = new Map<Logger, string>(); // Events logged until then are not sent to it (see `onPurge` in disabler.ts)
+  let queue: Queue.Queue;
+  let pendingSource: string;
+  let pendingVersion: string;
+  let pendingMetadata: MetadataTask[] = [];
+  const lockState = lockFieldsState(); // The fields locked so far (see lockFields.ts)
+  let authUser: Record<string, unknown> = {}; // Who the server says the user is (see websocketLogger)
+  let removeAuthListener: (() => void) | null = null;
+  let removeUnloadListener: (() => void) | null = null;
+  let removePurgeListener: (() => void) | null = null;
+  const middleware: Middleware[] = []; // Run as events are logged (see `use`)
+  const loggerMiddleware = new Map<Logger, Middleware[]>(); // Run as events are sent to each logger
+  let redact: ReturnType<typeof createRedactor> | null = null; // See redact.ts
+  let consentState: Consent | null = null; // See consent.ts
+  let heldQueues = new Map<string, Queue.Queue>(); // Events awaiting consent, by category
+  // Granted categories whose held events may not all be released yet;
+  // their new events queue up behind them, to keep them in order
+  const releasing = new Set<string>();
+  let pendingResets: PendingReset[] = []; // Oldest first (see `resetSession`)
+
+  function isInitialized () {
+    return initialized === INIT_STATES.READY;
+  }
+
+  /**
+   * Collect all enabled loggers with an init function, call it,
+   * and wait for all of them to finish initializing. We add this
+   * function to our `currentState` pipeline to ensure loggers
+   * are ready to go before we send events.
+   */
+  async function initializeLoggers () {
+    debug.info('initializing loggers');
+    const initializedLoggers = loggersEnabled
+      .filter(logger => typeof logger.init === 'function') // Filter out loggers without .init property
+      .map(logger => logger.init!()); // Call .init() on each logger, which may return a promise
+
     try {
-      logger(jsonEncodedEvent);
+      await Promise.all(initializedLoggers);
+      debug.info('Loggers initialized!');
+      initialized = INIT_STATES.LOGGERS_READY;
     } catch (error) {
-      if (error instanceof disabler.BlockError) {
-        // Handle BlockError exception here
-        disabler.handleBlockError(error);
-      } else {
-        // Other types of exceptions will propagate up
-        throw error;
+      initialized = INIT_STATES.ERROR;
+      debug.error('Error resolving logger initializers:', error);
+    }
+  }
+
+  /**
+   * Set specific key/value pairs using the `lock_fields`
+   * event. We use this to set specific fields that we want
+   * included overall for subsequent events to prevent
+   * sending the same information in each event.
+   *
+   * This is useful for items such as `source` and `version`
+   * which should be the same for every event.
+   *
+   * This function works even after we are initialized and
+   * processing items from the queue (INIT_STATES.READY).
+   *
+   * Each individual logger should keep track of state and
+   * handle their respecitive reconnects properly (see lockFields.ts).
+   */
+  function lockFields (data: Record<string, unknown>[]) {
+    currentState = currentState.then(
+      () => lockFieldsAsync(data)
+    );
+  }
+
+  /**
+   * Stop sending the fields named in `keys` (e.g. `user_id`, when a
+   * student logs out).
+   */
+  function unlockFields (keys: string[]) {
+    currentState = currentState.then(
+      () => changeLockFields(LOCK_EVENTS.UNLOCK, keys)
+    );
+  }
+
+  /**
+   * Replace every locked field with `fields` (by default, none).
+   */
+  function resetLockFields (fields: Record<string, unknown> = {}) {
+    currentState = currentState.then(
+      () => changeLockFields(LOCK_EVENTS.RESET, fields)
+    );
+  }
+
+  /**
+   * End the current session and start a new one, e.g. when a shared
+   * Chromebook switches students. We log `session_end`, replace every
+   * locked field with the ones we lock in `go()` (source, version, and
+   * metadata, collected again) plus `fields`, rotate the session tag
+   * (see `util.createEventSession`), and log `session_start`.
+   *
+   * Events already logged are delivered under the old fields, if our
+   * queue empties within a few seconds. Events logged from here on are
+   * part of the new session: they wait until the new fields reach the
+   * loggers, so none goes out under the previous student's.
+   *
+   * Example usage:
+   *  lo_event.resetSession({ user_id: nextStudent });
+   */
+  function resetSession (fields: Record<string, unknown> = {}) {
+    const previous = eventSession.tag();
+    logEvent('session_end', { session: previous });
+    const session = eventSession.rotate();
+    const reset: PendingReset = { fields: { source: pendingSource, version: pendingVersion, ...fields }, events: [] };
+    pendingResets.push(reset);
+    logEvent('session_start', { session, previous_session: previous });
+    currentState = currentState.then(async () => {
+      try {
+        await waitForQueueToEmpty();
+        const metadata = await mergeMetadata(await compileMetadata(pendingMetadata));
+        await changeLockFields(LOCK_EVENTS.RESET, {
+          source: pendingSource,
+          version: pendingVersion,
+          ...metadata,
+          ...fields
+        });
+      } finally {
+        pendingResets = pendingResets.filter(pending => pending !== reset);
+        reset.events.forEach(({ event, lane }) => queue.enqueue(event, { lane }));
       }
+    });
+  }
+
+  /**
+   * The fields events logged now go out under: those of the latest
+   * `resetSession`, until it applies.
+   */
+  function currentFields () {
+    return pendingResets[pendingResets.length - 1]?.fields ?? lockState.fields;
+  }
+
+  /**
+   * Wait (briefly) until everything logged so far has reached the
+   * loggers. We give up if we are not streaming events yet, or after a
+   * few seconds, e.g. while opted out.
+   */
+  async function waitForQueueToEmpty () {
+    if (!isInitialized()) {
+      return;
+    }
+    try {
+      await util.backoff(
+        async () => (await pendingSize()) === 0,
+        'Queue did not empty',
+        [50, 100, 250, 500, 1000, 2000]
+      );
+    } catch (e) {
+      debug.info('Changing lock fields with events still queued');
     }
   }
-}
 
-export function logEvent (eventType: string, event: Record<string, unknown>) {
-  // opt out / dead
-  if (!disabler.storeEvents()) {
-    return;
+  async function lockFieldsAsync (data: Record<string, unknown>[]) {
+    await changeLockFields(LOCK_EVENTS.LOCK, await mergeMetadata(data));
+  }
+
+  /**
+   * Apply a lock-field change, as the next version, and wait for all
+   * loggers to run their `setField` command with it.
+   */
+  async function changeLockFields (event: string, fields: Record<string, unknown> | string[]) {
+    const payload: Record<string, unknown> = { event, version: lockState.version + 1, fields };
+    eventSession.timestampEvent(payload);
+    if (redact && !Array.isArray(fields)) {
+      const { value, redacted } = redact(fields, LOCK_EVENTS.LOCK);
+      payload.fields = value;
+      recordRedactions(payload, redacted);
+    }
+    applyLockEvent(lockState, payload);
+    const authpromises = loggersEnabled
+      .filter(logger => typeof logger.setField === 'function')
+      .map(logger => logger.setField!(JSON.stringify(payload)));
+
+    await Promise.all(authpromises);
+  }
+
+  // TODO: We should consider specifying a set of verbs, nouns, etc. we
+  // might use, and outlining what can be expected in the protocol
+  // TODO: We should consider structing / destructing here
+  // Loggers given as `{ logger, filter }` only receive the events their
+  // filter accepts (see eventFilter.ts)
+  // With `redaction`, events and locked fields are redacted before
+  // they are queued or sent (see redact.ts)
+  function init (
+    source: string,
+    version: string,
+    loggers: (Logger | LoggerEntry)[],
+    {
+      debugLevel = undefined as string | undefined,
+      debugDest = undefined as LogDestination[] | undefined,
+      useDisabler = true,
+      queueType = undefined as string | undefined,
+      queueLimits = {} as QueueLimits,
+      sendBrowserInfo = false,
+      verboseEvents = false,
+      metadata = [] as MetadataTask[],
+      beaconEndpoint = null as string | null,
+      coordinateTabs = undefined as boolean | undefined,
+      validationMode = undefined as string | undefined,
+      redaction = undefined as RedactionOptions | undefined,
+      consent = undefined as ConsentOptions | undefined,
+    } = {}
+  ) {
+    if (!source || typeof source !== 'string') throw new Error('source must be a non-null string');
+    if (!version || typeof version !== 'string') throw new Error('version must be a non-null string');
+    if (initialized !== INIT_STATES.NOT_STARTED) throw new Error('lo_event is already initialized; call stop() first');
+    const { loggers: resolvedLoggers, filters } = resolveLoggers(loggers);
+    const redactor = redaction ? createRedactor(redaction) : null;
+    const consentDecisions = consent ? createConsent(source, consent) : null;
+
+    eventSession.setVerbose(verboseEvents);
+    if (typeof window !== 'undefined') {
+      removeAuthListener?.();
+      removeAuthListener = util.consumeCustomEvent('auth', (user) => {
+        authUser = user as Record<string, unknown>;
+      });
+    }
+    // Debugging and validation are set for the whole page, so we only
+    // change them when asked to
+    if (validationMode !== undefined) {
+      schema.setValidationMode(validationMode);
+    }
+    // Our queue only holds events until they reach our loggers, which
+    // queue them with the fields they were logged under (see
+    // lockFields.ts). In IndexedDB, it would be shared by every tab, and
+    // the leading tab would send their events under its own fields, so
+    // there it is in memory unless `queueType` says otherwise (and a
+    // persistent one is drained by the leading tab, unless
+    // `coordinateTabs` is false).
+    const name = queueName ?? `LOEvent-${source.replace(/[^A-Za-z0-9]+/g, '_')}`;
+    queue = new Queue.Queue(name, {
+      queueType: queueType ?? (typeof indexedDB !== 'undefined' ? Queue.QueueType.IN_MEMORY : Queue.QueueType.AUTODETECT),
+      limits: queueLimits,
+      overflowEvent: Queue.queueOverflowEvent,
+      coordinate: coordinateTabs,
+      lanes: Object.values(PRIORITY),
+      defaultLane: PRIORITY.NORMAL
+    });
+
+    if (debugLevel !== undefined) {
+      debug.setLevel(debugLevel);
+    }
+    if (debugDest !== undefined) {
+      debug.setLogOutputs(debugDest);
+    }
+    if (useDisabler) {
+      currentState = currentState.then(() => disabler.init(useDisabler));
+    }
+    // While the server holds our events, they wait in our queue (see
+    // disabler.ts), unless it has us discard them: all of them, or
+    // those for the logger it told, which we skip as they come
+    removePurgeListener?.();
+    removePurgeListener = disabler.onPurge(async (logger) => {
+      if (!logger) {
+        await queue.clear();
+      } else if (loggersEnabled.includes(logger)) {
+        purgedBefore.set(logger, new Date().toISOString());
+      }
+    });
+
+    loggersEnabled = resolvedLoggers;
+    loggerFilters = filters;
+    redact = redactor;
+    if (consentDecisions) {
+      startConsent(consentDecisions, name, { queueType: queueType ?? Queue.QueueType.AUTODETECT, coordinate: coordinateTabs });
+    }
+    initialized = INIT_STATES.IN_PROGRESS;
+    pendingSource = source;
+    pendingVersion = version;
+    pendingMetadata = metadata;
+    currentState = currentState.then(initializeLoggers);
+    if (beaconEndpoint) {
+      removeUnloadListener?.();
+      removeUnloadListener = beacon.onPageHide(() => flushToBeacon(beaconEndpoint));
+    }
+    if(sendBrowserInfo) {
+      // In the future, some or all of this might be sent on every
+      // reconnect
+      logEvent("BROWSER_INFO", getBrowserInfo());
+    }
+  }
+
+  /**
+   * Begin dequeuing and streaming events.
+   *
+   * This should be called after init() and any preauth lockFields()
+   * calls. Source/version and metadata are sent here so that preauth
+   * fields (set between init() and go()) are transmitted first.
+   *
+   * Typical usage:
+   *   lo_event.init(source, version, loggers, options);
+   *   lo_event.lockFields([{ preauth_type: 'test' }]);   // sent first
+   *   lo_event.lockFields([{ postauth: 'data' }]);       // sent second
+   *   lo_event.go();  // source/version sent here, then streaming begins
+   */
+  function go () {
+    lockFields([{ source: pendingSource, version: pendingVersion }]);
+    currentState = currentState.then(async () => {
+      const results = await compileMetadata(pendingMetadata);
+      await lockFieldsAsync(results);
+    });
+    currentState = currentState.then(() => {
+      if (initialized === INIT_STATES.ERROR) {
+        debug.error('Cannot start dequeue loop: logger initialization failed');
+        return;
+      }
+      initialized = INIT_STATES.READY;
+      queue.startDequeueLoop({
+        initialize: isInitialized,
+        shouldDequeue: disabler.retry,
+        onDequeue: sendEvent
+      });
+    });
   }
-  const stamped = { ...event, event: eventType };
-  timestampEvent(stamped);
 
-  queue.enqueue(stamped);
+  /**
+   * Report where lo_event is in its lifecycle, what is waiting in our
+   * queue, and whatever each logger reports about itself (typically its
+   * own queue and whether it is connected).
+   *
+   * Example usage:
+   *  const status = await lo_event.getStatus();
+   *  status.loggers[0].queue.size
+   *  // 4312
+   */
+  async function getStatus () {
+    const loggers = await Promise.all(loggersEnabled.map(async (logger) => {
+      const status: LoggerStatus = typeof logger.getStatus === 'function' ? await logger.getStatus() : {};
+      return { name: logger.lo_id ?? logger.lo_name ?? null, ...status };
+    }));
+    return {
+      state: initialized,
+      queue: queue ? await queue.status() : null,
+      consent: consentState ? await consentStatus(consentState) : null,
+      loggers
+    };
+  }
+
+  /**
+   * Wait until everything logged so far has reached the loggers, and
+   * every logger has sent it on, for up to `timeoutMs`. Resolves to
+   * whether it all went out, and our status (see `getStatus`), which
+   * shows anything left.
+   *
+   * Example usage:
+   *  const { flushed, status } = await lo_event.flush(2000);
+   */
+  async function flush (timeoutMs = 5000) {
+    const deadline = Date.now() + timeoutMs;
+    const queued = await flushQueue(deadline);
+    const sent = await flushLoggers(deadline);
+    return { flushed: queued && sent, status: await getStatus() };
+  }
+
+  /**
+   * Wait for initialization and lock-field changes in progress, then
+   * for our queue to empty, until `deadline`. Until `go()`, nothing
+   * leaves our queue.
+   */
+  async function flushQueue (deadline: number) {
+    const timeout = new AbortController();
+    await Promise.race([currentState, util.delay(Math.max(0, deadline - Date.now()), timeout.signal)]);
+    timeout.abort();
+    return isInitialized() && await util.waitFor(async () => (await pendingSize()) === 0, Math.max(0, deadline - Date.now()));
+  }
+
+  async function flushLoggers (deadline: number) {
+    const results = await Promise.all(loggersEnabled.map(
+      logger => typeof logger.flush === 'function' ? logger.flush(Math.max(0, deadline - Date.now())) : true
+    ));
+    return results.every(Boolean);
+  }
+
+  /**
+   * Flush (see `flush`), then shut down: stop our queue and every
+   * logger, closing their connections, and unlock every field. lo_event
+   * is then back where it started, and may be initialized again, e.g.
+   * when a single-page app mounts another activity. Events which did
+   * not go out within `timeoutMs` stay in persistent queues for next
+   * time, and are otherwise lost; the result says what was left.
+   */
+  async function stop (timeoutMs = 5000) {
+    if (initialized === INIT_STATES.NOT_STARTED) {
+      return { flushed: true, status: await getStatus() };
+    }
+    const deadline = Date.now() + timeoutMs;
+    const queued = await flushQueue(deadline);
+    await queue.stop();
+    // Loggers may outlive us, so the next init starts from no fields
+    await changeLockFields(LOCK_EVENTS.RESET, {});
+    const sent = await flushLoggers(deadline);
+    const result = { flushed: queued && sent, status: await getStatus() };
+
+    await Promise.all(loggersEnabled.map(logger => logger.stop?.()));
+    removeAuthListener?.();
+    removeAuthListener = null;
+    removeUnloadListener?.();
+    removeUnloadListener = null;
+    removePurgeListener?.();
+    removePurgeListener = null;
+    authUser = {};
+    loggersEnabled = [];
+    loggerFilters = new Map();
+    purgedBefore = new Map();
+    redact = null;
+    await Promise.all([...heldQueues.values()].map(held => held.stop()));
+    heldQueues = new Map();
+    releasing.clear();
+    consentState = null;
+    currentState = Promise.resolve();
+    initialized = INIT_STATES.NOT_STARTED;
+    return result;
+  }
+
+  /**
+   * Events still on their way to the loggers: those in our queue, and
+   * those held for categories already granted.
+   */
+  async function pendingSize () {
+    const sizes = await Promise.all([...heldQueues]
+      .filter(([category]) => consentState?.actionFor(category) === disabler.EVENT_ACTION.TRANSMIT)
+      .map(([, held]) => held.size()));
+    return sizes.reduce((total, size) => total + size, await queue.size());
+  }
+
+  /**
+   * Hold events in a queue per consent category, until it is decided
+   * (see consent.ts). Each queue releases its events into ours, in
+   * order, once its category is granted.
+   */
+  function startConsent (
+    decisions: Consent,
+    name: string,
+    queueOptions: { queueType: string; coordinate: boolean | undefined }
+  ) {
+    consentState = decisions;
+    for (const category of decisions.categories()) {
+      const held = new Queue.Queue(`${name}-held-${category.replace(/[^A-Za-z0-9]+/g, '_')}`, queueOptions);
+      heldQueues.set(category, held);
+      releasing.add(category);
+      held.startDequeueLoop({
+        shouldDequeue: async () => {
+          await decisions.whenGranted(category);
+          return true;
+        },
+        onDequeue: async (item) => {
+          const { lane, event } = item as { lane: string; event: Record<string, unknown> };
+          // Revoked since we were woken
+          if (decisions.actionFor(category) === disabler.EVENT_ACTION.TRANSMIT) {
+            enqueueEvent(event, lane);
+          }
+          if ((await held.size()) <= 1) {
+            releasing.delete(category);
+          }
+        }
+      });
+    }
+    currentState = currentState.then(async () => {
+      await decisions.load();
+      await purgeHeld();
+    });
+  }
+
+  /**
+   * Discard held events we will now never send.
+   */
+  async function purgeHeld () {
+    await Promise.all([...heldQueues]
+      .filter(([category]) => consentState?.actionFor(category) === disabler.EVENT_ACTION.DROP)
+      .map(([, held]) => held.clear()));
+  }
+
+  async function consentStatus (decisions: Consent) {
+    const held: Record<string, number> = {};
+    for (const [category, heldQueue] of heldQueues) {
+      held[category] = await heldQueue.size();
+    }
+    return { decisions: decisions.get(), held };
+  }
+
+  /**
+   * Record consent decisions (see consent.ts): which categories of
+   * events we may capture. Events held for a category are released
+   * when it is granted, and discarded when it is denied. We log what
+   * changed as a `consent_changed` event.
+   *
+   * Example usage:
+   *  lo_event.consent.set({ analytics: true, keystrokes: false });
+   *  lo_event.consent.get();
+   *  // { analytics: true, keystrokes: false }
+   */
+  const consent = {
+    set (changes: Record<string, boolean>) {
+      if (!consentState) {
+        throw new Error('lo_event was not initialized with consent categories');
+      }
+      const changed = consentState.set(changes);
+      if (Object.keys(changed).length === 0) {
+        return;
+      }
+      currentState = currentState.then(() => purgeHeld().catch(
+        error => debug.error('Could not discard held events:', error)
+      ));
+      logEvent(CONSENT_EVENT, { changes: changed, consent: consentState.get() }, { priority: PRIORITY.CRITICAL });
+    },
+    get: () => consentState?.get() ?? {}
+  };
+
+  /**
+   * Ship everything still pending to `endpoint` via `navigator.sendBeacon`.
+   * This is called when the page is unloaded.
+   *
+   * Events in the loggers' queues are older than those still in our own
+   * queue, so they go first. Several loggers may hold the same event, so
+   * we deduplicate on the encoded event.
+   */
+  function flushToBeacon (endpoint: string) {
+    // Held events stay in persistent queues, until the hold lifts
+    if (!disabler.streamEvents()) {
+      return;
+    }
+    const events = new Set<string>();
+    for (const logger of loggersEnabled) {
+      if (typeof logger.drain === 'function') {
+        logger.drain().forEach(event => events.add(event));
+      }
+    }
+    const header = JSON.stringify(sessionHeader(lockState));
+    const queued = queue.drain();
+    if (queued.length > 0 && [...events].some(isHeaderLine)) {
+      // The loggers' events may end under other fields than ours.
+      events.add(header);
+    }
+    queued.forEach(event => events.add(JSON.stringify(event)));
+    // Events waiting for a new session go out under its fields
+    pendingResets.forEach((reset, i) => {
+      if (reset.events.length > 0) {
+        events.add(JSON.stringify(sessionHeader({ version: lockState.version + i + 1, fields: reset.fields })));
+        reset.events.splice(0).forEach(({ event }) => events.add(JSON.stringify(event)));
+      }
+    });
+    if (events.size === 0) {
+      return;
+    }
+
+    debug.info(`Sending ${events.size} pending events by beacon`);
+    beacon.sendBeacon(endpoint, header, [...events]);
+  }
+
+  function sendEvent (event: unknown) {
+    const jsonEncodedEvent = JSON.stringify(event);
+    for (const logger of loggersEnabled) {
+      try {
+        if (loggerFilters.has(logger) && !loggerFilters.get(logger)!(event as Record<string, unknown>)) {
+          continue;
+        }
+        if (purgedBefore.has(logger) && loggedAt(event) < purgedBefore.get(logger)!) {
+          continue;
+        }
+        let encoded = jsonEncodedEvent;
+        const chain = loggerMiddleware.get(logger);
+        if (chain?.length) {
+          // Each logger's middleware gets its own copy
+          const changed = runMiddleware(chain, JSON.parse(jsonEncodedEvent));
+          if (!changed) {
+            continue;
+          }
+          encoded = JSON.stringify(changed);
+        }
+        logger(encoded);
+      } catch (error) {
+        if (error instanceof disabler.BlockError) {
+          // Handle BlockError exception here
+          disabler.handleBlockError(error);
+        } else {
+          // One failing logger (or its filter) must not hold up the
+          // others, nor have the event delivered to them again.
+          debug.error(`Logger ${logger.lo_name ?? logger.name} failed on ${(event as Record<string, unknown>).event}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Browser events (`browser.*`), other than writing, default to
+   * telemetry; everything else is normal.
+   */
+  function defaultPriority (eventType: string) {
+    return isTelemetry({ event: eventType }) ? PRIORITY.TELEMETRY : PRIORITY.NORMAL;
+  }
+
+  function logEvent (
+    eventType: string,
+    event: Record<string, unknown>,
+    { priority = defaultPriority(eventType) }: LogEventOptions = {}
+  ) {
+    // opt out / dead
+    if (!disabler.storeEvents()) {
+      return;
+    }
+    // Invalid events are reported, and dropped or thrown, per the
+    // validation mode; see schema.ts
+    if (!schema.checkEvent(eventType, event)) {
+      return;
+    }
+    const stamped = { ...event, event: eventType };
+    eventSession.timestampEvent(stamped);
+    let processed = runMiddleware(middleware, stamped);
+    if (!processed) {
+      return;
+    }
+    if (redact) {
+      const { value, redacted } = redact(processed, String(processed.event));
+      processed = value;
+      recordRedactions(processed, redacted);
+    }
+    if (consentState) {
+      const category = consentState.categoryOf(String(processed.event));
+      const action = consentState.actionFor(category);
+      if (action === disabler.EVENT_ACTION.DROP) {
+        return;
+      }
+      if (action === disabler.EVENT_ACTION.MAINTAIN || releasing.has(category!)) {
+        heldQueues.get(category!)!.enqueue({ lane: priority, event: processed });
+        return;
+      }
+    }
+    enqueueEvent(processed, priority);
+  }
+
+  /**
+   * Add `event` to our queue, or, while a `resetSession` is pending,
+   * hold it until the new fields reach the loggers.
+   */
+  function enqueueEvent (event: Record<string, unknown>, lane: string) {
+    const reset = pendingResets[pendingResets.length - 1];
+    if (reset) {
+      reset.events.push({ event, lane });
+      return;
+    }
+    queue.enqueue(event, { lane });
+  }
+
+  /**
+   * Add `fn` to our event pipeline. By default, it runs on each event
+   * as it is logged, after validation and timestamps, before our queue,
+   * so whatever it drops or removes is never stored. With `{ logger }`,
+   * it runs only for that logger, as events are sent to it, e.g. to
+   * keep input values out of what a console logger prints while still
+   * sending them to the server. Middleware runs in the order it was
+   * added. Returns a function which removes it again.
+   *
+   * Middleware may change the event it is given. At log time, values
+   * nested in it are still the caller's, so copy those before changing
+   * them. Lock-field changes do not pass through middleware.
+   *
+   * Example usage:
+   *  lo_event.use(event => ({ ...event, activity: currentActivity() }));
+   *  lo_event.use(event => {
+   *    delete (event.target as Record<string, unknown> | undefined)?.value;
+   *    return event;
+   *  }, { logger: debugConsole });
+   */
+  function use (fn: Middleware, { logger }: UseOptions = {}) {
+    let chain = middleware;
+    if (logger) {
+      chain = loggerMiddleware.get(logger) ?? [];
+      loggerMiddleware.set(logger, chain);
+    }
+    chain.push(fn);
+    return () => {
+      const index = chain.indexOf(fn);
+      if (index !== -1) {
+        chain.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * A typed `logEvent`, for an event map `E`: an interface from event
+   * types to the types of their payloads, usually generated from our
+   * schemas by `lo-event-types` (see schema.ts).
+   *
+   * Example usage:
+   *  const { logEvent } = lo_event.createEventLogger<MyEvents>();
+   *  logEvent('submit', { response: '42' });
+   *  logEvent('submit', { respone: '42' }); // compile error
+   */
+  function createEventLogger<E extends object> (): TypedEventLogger<E> {
+    return {
+      logEvent: (eventType, event, options) => logEvent(eventType, event as Record<string, unknown>, options)
+    };
+  }
+
+  /**
+   * Log a full xAPI Statement, built from `parts` (see xapi.ts), as an
+   * `xapi_statement` event. Unless `parts` names an actor, we take it
+   * from our locked fields, or from the user the server authenticated.
+   *
+   * Invalid statements are handled like events which fail their schema
+   * (see schema.ts): reported, and logged, dropped, or thrown according
+   * to the validation mode. Statements we cannot build at all (e.g. with
+   * an unknown verb) always throw.
+   *
+   * Example usage:
+   *  lo_event.logXAPI({
+   *    verb: 'answered',
+   *    object: { id: 'https://example.org/quiz/1/q3', type: 'question' },
+   *    result: { response: '42', success: true }
+   *  }, { priority: lo_event.PRIORITY.CRITICAL });
+   */
+  function logXAPI (
+    parts: xapi.StatementParts,
+    { accountHomePage, ...options }: LogEventOptions & { accountHomePage?: string } = {}
+  ) {
+    const statement = xapi.buildStatement(parts, {
+      fields: { ...authUser, ...currentFields() },
+      accountHomePage
+    });
+    if (!schema.reportInvalid('xapi_statement', xapi.validateStatement(statement))) {
+      return;
+    }
+    logEvent('xapi_statement', { statement }, options);
+  }
+
+  /**
+   * Log a Caliper Event of `type` (see caliper.ts) as a `caliper_event`
+   * event. As with `logXAPI`, the actor defaults to our locked fields or
+   * the authenticated user, and invalid events are handled according to
+   * the validation mode.
+   *
+   * Example usage:
+   *  lo_event.logCaliper('AssessmentEvent', 'Submitted', {
+   *    object: 'https://example.org/quiz/1'
+   *  }, { priority: lo_event.PRIORITY.CRITICAL });
+   */
+  function logCaliper<T extends caliper.EventType> (
+    type: T,
+    action: caliper.Action<T>,
+    parts: caliper.EventParts,
+    { personIdBase, edApp, ...options }: LogEventOptions & Omit<caliper.BuildOptions, 'fields'> = {}
+  ) {
+    const event = caliper.buildEvent(type, action, parts, {
+      fields: { ...authUser, ...currentFields() },
+      personIdBase,
+      edApp
+    });
+    if (!schema.reportInvalid('caliper_event', caliper.validateEvent(event))) {
+      return;
+    }
+    logEvent('caliper_event', { caliper: event }, options);
+  }
+
+  /**
+   * We would like to be able to log events roughly following the xAPI
+   * conventions (and possibly Caliper conventions). This allows us to
+   * explicitly structure events with the same fields as xAPI, without
+   * building a full Statement. For conformant statements, see
+   * `logXAPI`.
+   *
+   * In the long term, we'd like to be as close to standards as possible.
+   */
+  function logXAPILite (
+    {
+      verb,
+      object,
+      result,
+      context,
+      attachments
+    }: { verb: string; object?: unknown; result?: unknown; context?: unknown; attachments?: unknown }
+  ) {
+    logEvent(verb,
+      { object, result, context, attachments }
+    );
+  }
+
+  return {
+    init,
+    go,
+    lockFields,
+    unlockFields,
+    resetLockFields,
+    resetSession,
+    getStatus,
+    flush,
+    stop,
+    logEvent,
+    use,
+    createEventLogger,
+    logXAPI,
+    logCaliper,
+    logXAPILite,
+    consent
+  };
 }
 
+export type LoEvent = ReturnType<typeof createInstance>;
+
 /**
- * We would like to be able to log events roughly following the xAPI
- * conventions (and possibly Caliper conventions). This allows us to
- * explicitly structure events with the same fields as xAPI, and
- * might have validation logic in the future. However, we have not
- * figured out the best way to do this, so please treath this as
- * stub / in-progress code.
+ * A separate lo_event, e.g. for each of several independently
+ * instrumented widgets on one page. It takes the same arguments as
+ * `init`, which it calls, and has the module's functions as methods,
+ * with its own queue (named after `source`, so instances with
+ * different sources do not share persistent queues), lifecycle,
+ * session tag, and locked fields. Its loggers should be its own, too.
+ *
+ * Debug output, validation mode, schemas, and opt-out are shared by the
+ * whole page; an instance only changes the first two if its options
+ * name them.
  *
- * In the long term, we'd like to be as close to standards as possible.
+ * Example usage:
+ *  const quiz = lo_event.createLoEvent('org.example.quiz', '2', [websocketLogger(quizServer)]);
+ *  quiz.go();
+ *  quiz.logEvent('submit', { response: '42' });
  */
-export function logXAPILite (
-  {
-    verb,
-    object,
-    result,
-    context,
-    attachments
-  }: { verb: string; object?: unknown; result?: unknown; context?: unknown; attachments?: unknown }
-) {
-  logEvent(verb,
-    { object, result, context, attachments }
-  );
+export function createLoEvent (...[source, version, loggers, options]: Parameters<LoEvent['init']>) {
+  const instance = createInstance(null, util.createEventSession());
+  instance.init(source, version, loggers, options);
+  return instance;
 }
+
+const defaultInstance = createInstance('LOEvent', util.defaultEventSession);
+
+export function init (...[source, version, loggers, options = {}]: Parameters<LoEvent['init']>) {
+  defaultInstance.init(source, version, loggers, {
+    debugLevel: debug.LEVEL.NONE,
+    debugDest: [debug.LOG_OUTPUT.CONSOLE],
+    validationMode: schema.VALIDATION_MODE.WARN,
+    ...options
+  });
+}
+
+export const {
+  go,
+  lockFields,
+  unlockFields,
+  resetLockFields,
+  resetSession,
+  getStatus,
+  flush,
+  stop,
+  logEvent,
+  use,
+  createEventLogger,
+  logXAPI,
+  logCaliper,
+  logXAPILite,
+  consent
+} = defaultInstance;
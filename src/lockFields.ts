@@ -0,0 +1,167 @@
+/*
+ * The lock-field protocol.
+ *
+ * Fields locked with `lo_event.lockFields` (source, version, who the
+ * user is, ...) are sent once, rather than with every event. Each
+ * logger keeps the current set, and changes to it reach the loggers
+ * (and, in order with other events, the server) as events:
+ *
+ *   { event: 'lock_fields', version: 3, fields: { user_id: 'ada' } }  // add or replace fields
+ *   { event: 'unlock_fields', version: 4, fields: ['user_id'] }       // remove fields
+ *   { event: 'lock_fields_reset', version: 5, fields: {} }            // replace every field
+ *
+ * Versions increase with each change. When a logger (re)connects, it
+ * first sends one `session_header`, with the current field set, its
+ * version, and a token identifying the logger's session across
+ * reconnects:
+ *
+ *   { event: 'session_header', version: 5, fields: {...}, resume_token: '...' }
+ *
+ * Changes still queued behind the header may already be part of it;
+ * servers should discard those with a version no newer than the
+ * header's.
+ *
+ * Loggers with a queue of their own tag each event with the fields it
+ * was logged under (see `TaggedEvent`), and send a new `session_header`
+ * whenever that changes from one event to the next. So events queued
+ * before a change, offline, or by another tab sharing the queue, go
+ * out under their own fields, not whatever is locked when they are
+ * finally sent.
+ */
+import * as util from './util.js';
+
+export const LOCK_EVENTS = {
+  LOCK: 'lock_fields',
+  UNLOCK: 'unlock_fields',
+  RESET: 'lock_fields_reset'
+} as const;
+
+export interface LockFieldsState {
+  version: number;
+  fields: Record<string, unknown>;
+}
+
+export function lockFieldsState (): LockFieldsState {
+  return { version: 0, fields: {} };
+}
+
+/**
+ * Apply a lock-field change to `state`, in place. Returns whether it
+ * was one; changes older than `state` are ignored. Changes without a
+ * version (from older clients) always apply.
+ */
+export function applyLockEvent (state: LockFieldsState, payload: Record<string, unknown>) {
+  if (!Object.values(LOCK_EVENTS).includes(payload.event as typeof LOCK_EVENTS[keyof typeof LOCK_EVENTS])) {
+    return false;
+  }
+  const version = payload.version as number | undefined;
+  if (version !== undefined && version <= state.version) {
+    return true;
+  }
+  switch (payload.event) {
+    case LOCK_EVENTS.LOCK:
+      util.mergeDictionary(state.fields, (payload.fields ?? {}) as Record<string, unknown>);
+      break;
+    case LOCK_EVENTS.UNLOCK:
+      for (const key of (payload.fields ?? []) as string[]) {
+        delete state.fields[key];
+      }
+      break;
+    case LOCK_EVENTS.RESET:
+      state.fields = { ...(payload.fields ?? {}) as Record<string, unknown> };
+      break;
+  }
+  if (version !== undefined) {
+    state.version = version;
+  }
+  return true;
+}
+
+/**
+ * Whether anything was ever locked in `state`, and so whether a
+ * connection needs a header.
+ */
+export function hasLockedFields (state: LockFieldsState) {
+  return state.version > 0 || Object.keys(state.fields).length > 0;
+}
+
+/**
+ * The `session_header` for `state`, to send first on a new connection.
+ */
+export function sessionHeader (state: LockFieldsState, resumeToken?: string) {
+  const header: Record<string, unknown> = {
+    event: 'session_header',
+    version: state.version,
+    fields: state.fields
+  };
+  if (resumeToken) {
+    header.resume_token = resumeToken;
+  }
+  util.timestampEvent(header);
+  return header;
+}
+
+/**
+ * An event as a logger queues it: the event, and the fields it was
+ * logged under (`headerSnapshot`), or null if nothing was locked yet.
+ * Undefined for events queued untagged (see `untagEvent`).
+ */
+export interface TaggedEvent {
+  header: string | null | undefined;
+  data: string;
+}
+
+/**
+ * The fields in `state`, encoded once, to tag events with. Null if
+ * nothing was ever locked.
+ */
+export function headerSnapshot (state: LockFieldsState): string | null {
+  return hasLockedFields(state) ? JSON.stringify({ version: state.version, fields: state.fields }) : null;
+}
+
+/**
+ * The event and the fields it was logged under, for something taken
+ * from a logger's queue. Plain strings (overflow reports, or events
+ * queued by older versions) have no header of their own, and go out
+ * under whichever fields came before them.
+ */
+export function untagEvent (item: unknown): TaggedEvent {
+  if (typeof item === 'string') {
+    return { header: undefined, data: item };
+  }
+  return item as TaggedEvent;
+}
+
+/**
+ * The `session_header` for a snapshot from `headerSnapshot`.
+ */
+export function snapshotHeader (snapshot: string, resumeToken?: string) {
+  return sessionHeader(JSON.parse(snapshot) as LockFieldsState, resumeToken);
+}
+
+/**
+ * Queued events as lines, with a `session_header` line before each
+ * change of fields, e.g. to send by beacon. Untagged events at the
+ * start go out under `initial`.
+ */
+export function withHeaders (items: unknown[], initial: string | null = null): string[] {
+  const lines: string[] = [];
+  let last: string | null = null;
+  for (const item of items) {
+    const { header, data } = untagEvent(item);
+    const snapshot: string | null = header === undefined ? last ?? initial : header;
+    if (snapshot && snapshot !== last) {
+      lines.push(JSON.stringify(snapshotHeader(snapshot)));
+      last = snapshot;
+    }
+    lines.push(data);
+  }
+  return lines;
+}
+
+/**
+ * Whether `line`, from `withHeaders`, is a `session_header`.
+ */
+export function isHeaderLine (line: string) {
+  return line.startsWith('{"event":"session_header"');
+}
@@ -0,0 +1,214 @@
+import { Queue, QueueType } from './queue.js';
+import * as xapi from './xapi.js';
+import * as util from './util.js';
+import * as debug from './debugLog.js';
+import * as disabler from './disabler.js';
+import { poster } from './poster.js';
+import { lockFieldsState, applyLockEvent } from './lockFields.js';
+import { VERBS } from './xapiVocabulary.js';
+import type { Logger, QueueLimits } from './types.js';
+
+/**
+ * How to turn one kind of lo_event event into a Statement: a verb
+ * (short name or IRI), and the object, result and context, either
+ * fixed or computed from the event. Or, a function which builds the
+ * `StatementParts` itself, returning `null` to skip the event.
+ */
+export type LrsMappingEntry = {
+  verb: string;
+  object?: xapi.StatementParts['object'] | ((event: Record<string, unknown>) => xapi.StatementParts['object']);
+  result?: (event: Record<string, unknown>) => xapi.Result | undefined;
+  context?: (event: Record<string, unknown>) => xapi.Context | undefined;
+} | ((event: Record<string, unknown>) => xapi.StatementParts | null);
+
+export interface LrsLoggerOptions {
+  auth?: { username: string; password: string } | { token: string };
+  mapping?: Record<string, LrsMappingEntry>;
+  defaultObject?: string;
+  accountHomePage?: string;
+  batchSize?: number;
+  headers?: Record<string, string>;
+  queueType?: string;
+  queueLimits?: QueueLimits;
+}
+
+function base64 (text: string) {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function lrsLogger (
+  endpoint: string,
+  {
+    auth = undefined,
+    mapping = {},
+    defaultObject = undefined,
+    accountHomePage = undefined,
+    batchSize = 50,
+    headers = {},
+    queueType = QueueType.AUTODETECT,
+    queueLimits = {}
+  }: LrsLoggerOptions = {}
+): Logger {
+  /*
+    This logger sends events to a partner's Learning Record Store, as
+    xAPI Statements, POSTed in batches to `<endpoint>/statements`.
+
+    We convert events when they are logged, while we know who the
+    actor is (see xapi.ts), and keep the Statements in our own queue
+    until the LRS accepts them:
+    - `xapi_statement` events (from `lo_event.logXAPI`) are sent as is.
+    - Events with an entry in `mapping` are converted by it.
+    - Otherwise, events whose type is a verb in the xAPI registry (as
+      from `lo_event.logXAPILite`) use that verb, and the event's own
+      object (or `defaultObject`), result and context.
+    - Anything else is not for the LRS, and is skipped.
+
+    Statements have ids, so resending is safe. We retry, and set aside
+    statements the LRS rejects, as poster.ts describes. If the LRS
+    answers a batch with 409 Conflict, some of it is already stored, so
+    we send the statements one at a time, and a single statement's 409
+    means it is already there.
+
+    While the server holds our events (MAINTAIN; see disabler.ts), we
+    keep queuing statements, but post nothing until the hold expires,
+    or is released.
+  */
+  const statementsUrl = endpoint.replace(/\/+$/, '') + '/statements';
+  const queue = new Queue(`lrsLogger-${endpoint.replace(/[^A-Za-z0-9]+/g, '_')}`, {
+    queueType,
+    limits: queueLimits
+  });
+  const lockState = lockFieldsState();
+
+  const authHeaders: Record<string, string> = {};
+  if (auth && 'token' in auth) {
+    authHeaders.Authorization = `Bearer ${auth.token}`;
+  } else if (auth) {
+    authHeaders.Authorization = `Basic ${base64(`${auth.username}:${auth.password}`)}`;
+  }
+
+  function fields () {
+    return lockState.fields;
+  }
+
+  /**
+   * The StatementParts for `event`, or `null` if it is not for the LRS.
+   */
+  function toParts (event: Record<string, unknown>): xapi.StatementParts | null {
+    const eventType = event.event as string;
+    const entry = Object.hasOwn(mapping, eventType) ? mapping[eventType] : undefined;
+    if (typeof entry === 'function') {
+      return entry(event);
+    }
+    if (entry) {
+      const object = typeof entry.object === 'function' ? entry.object(event) : entry.object ?? event.object ?? defaultObject;
+      return object
+        ? { verb: entry.verb, object: object as xapi.StatementParts['object'], result: entry.result?.(event), context: entry.context?.(event) }
+        : null;
+    }
+    if (Object.hasOwn(VERBS, eventType.toLowerCase()) || eventType.startsWith('http')) {
+      const object = event.object ?? defaultObject;
+      return object
+        ? {
+            verb: eventType,
+            object: object as xapi.StatementParts['object'],
+            result: event.result as xapi.Result | undefined,
+            context: event.context as xapi.Context | undefined
+          }
+        : null;
+    }
+    return null;
+  }
+
+  function toStatement (event: Record<string, unknown>): xapi.Statement | null {
+    if (event.event === 'xapi_statement') {
+      return event.statement as xapi.Statement;
+    }
+    const parts = toParts(event);
+    if (!parts) {
+      return null;
+    }
+    const timestamp = (event.metadata as Record<string, unknown> | undefined)?.iso_ts as string | undefined;
+    return xapi.buildStatement({ timestamp, ...parts }, { fields: fields(), accountHomePage });
+  }
+
+  const statementPoster = poster({
+    name: 'lrsLogger',
+    target: 'LRS',
+    queue,
+    post: (statements, signal) => fetch(statementsUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': '1.0.3',
+        ...authHeaders,
+        ...headers
+      },
+      signal,
+      body: JSON.stringify(statements)
+    }),
+    alreadyStored: (response) => response.status === 409
+  });
+
+  function lrsLogData (data: string) {
+    const event = JSON.parse(data);
+    let statement;
+    try {
+      statement = toStatement(event);
+    } catch (e) {
+      debug.error(`lrsLogger: could not convert ${event.event} to a statement`, e);
+      return;
+    }
+    if (!statement) {
+      return;
+    }
+    const errors = xapi.validateStatement(statement);
+    if (errors.length > 0) {
+      // The LRS would reject it
+      debug.error(`lrsLogger: dropping invalid statement for ${event.event}: ${errors.join('; ')}`);
+      return;
+    }
+    queue.enqueue(statement);
+  }
+
+  lrsLogData.init = async function () {
+    if (typeof fetch === 'undefined') {
+      debug.error('lrsLogger: fetch is not available in this environment');
+      return;
+    }
+    statementPoster.start();
+    queue.startDequeueLoop({
+      shouldDequeue: disabler.waitUntilReleased,
+      onDequeue: (statements) => statementPoster.post(statements as unknown[]),
+      batchSize
+    });
+  };
+
+  lrsLogData.setField = function (data: string) {
+    applyLockEvent(lockState, JSON.parse(data));
+  };
+
+  lrsLogData.flush = async function (timeoutMs: number) {
+    return await util.waitFor(async () => (await queue.size()) === 0, timeoutMs);
+  };
+
+  // Statements still queued are sent once we are started again
+  lrsLogData.stop = async function () {
+    statementPoster.stop();
+    await queue.stop();
+  };
+
+  // `connected` means our last POST succeeded
+  lrsLogData.getStatus = async function () {
+    return {
+      connected: statementPoster.connected(),
+      queue: await queue.status()
+    };
+  };
+
+  lrsLogData.lo_name = 'LRS Logger';
+  lrsLogData.lo_id = 'lrs_logger';
+
+  return lrsLogData as Logger;
+}
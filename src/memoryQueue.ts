@@ -5,21 +5,44 @@
  * - Nice for dev, where we don't want to persist events from buggy code
  * - Nice for simple use-cases
  */
+import * as util from './util.js';
+
+interface Entry {
+  item: unknown;
+  ts: number; // When the item was enqueued
+}
 
 export class Queue {
-  private queue: unknown[];
+  private queue: Entry[];
   private queueName: string;
   private promise: Promise<unknown> | null;
   private resolve: ((value: unknown) => void) | null;
+  // Items at the head of the queue handed out by `lease`, pending commit
+  private leased: number;
+  // Waiting for the queue not to be empty (see `waitForItem`)
+  private itemWaiters: (() => void)[];
 
   constructor (queueName: string) {
     this.queue = [];
     this.queueName = queueName;
     this.promise = null;
     this.resolve = null;
+    this.leased = 0;
+    this.itemWaiters = [];
 
     this.enqueue = this.enqueue.bind(this);
     this.dequeue = this.dequeue.bind(this);
+    this.waitForItem = this.waitForItem.bind(this);
+    this.lease = this.lease.bind(this);
+    this.commit = this.commit.bind(this);
+    this.abort = this.abort.bind(this);
+    this.drain = this.drain.bind(this);
+    this.discard = this.discard.bind(this);
+    this.size = this.size.bind(this);
+    this.byteSize = this.byteSize.bind(this);
+    this.oldestTimestamp = this.oldestTimestamp.bind(this);
+    this.peek = this.peek.bind(this);
+    this.clear = this.clear.bind(this);
   }
 
   async initialize () {
@@ -30,13 +53,16 @@ export class Queue {
       this.resolve!(item);
       this.promise = null;
     } else {
-      this.queue.push(item);
+      this.queue.push({ item, ts: Date.now() });
+      const waiters = this.itemWaiters;
+      this.itemWaiters = [];
+      waiters.forEach(resolve => resolve());
     }
   }
 
   dequeue (): unknown | Promise<unknown> {
     if (this.queue.length > 0) {
-      return this.queue.shift();
+      return this.queue.shift()!.item;
     } else {
       this.promise = new Promise((resolve) => {
         this.resolve = resolve;
@@ -44,4 +70,74 @@ export class Queue {
       return this.promise;
     }
   }
+
+  /**
+   * Resolves once the queue is not empty.
+   */
+  async waitForItem () {
+    while (this.queue.length === 0) {
+      await new Promise<void>((resolve) => {
+        this.itemWaiters.push(resolve);
+      });
+    }
+  }
+
+  /**
+   * Hand out up to `max` items from the head of the queue, waiting for
+   * at least one, without removing them. They are removed by
+   * `commit()`, or left at the head by `abort()`.
+   */
+  async lease (max: number): Promise<unknown[]> {
+    await this.waitForItem();
+    this.leased = Math.min(max, this.queue.length);
+    return this.queue.slice(0, this.leased).map(({ item }) => item);
+  }
+
+  commit () {
+    this.queue.splice(0, this.leased);
+    this.leased = 0;
+  }
+
+  abort () {
+    this.leased = 0;
+  }
+
+  // Leased items are in flight, so we never discard them.
+  discard (predicate: (item: unknown) => boolean = () => true): unknown {
+    const index = this.queue.findIndex(({ item }, i) => i >= this.leased && predicate(item));
+    if (index === -1) {
+      return undefined;
+    }
+    return this.queue.splice(index, 1)[0].item;
+  }
+
+  /**
+   * Synchronously remove and return everything in the queue. This is
+   * used when the page is going away, and we cannot wait on promises.
+   */
+  drain (): unknown[] {
+    this.leased = 0;
+    return this.queue.splice(0).map(({ item }) => item);
+  }
+
+  size () {
+    return this.queue.length;
+  }
+
+  byteSize () {
+    return this.queue.reduce((total, { item }) => total + util.itemSize(item), 0);
+  }
+
+  oldestTimestamp () {
+    return this.queue.length > 0 ? this.queue[0].ts : null;
+  }
+
+  peek (n = 1) {
+    return this.queue.slice(0, n).map(({ item }) => item);
+  }
+
+  clear () {
+    this.queue = [];
+    this.leased = 0;
+  }
 }
@@ -0,0 +1,125 @@
+/*
+ * Posting queued items to an HTTP endpoint which takes them in
+ * batches, such as an xAPI LRS (lrsLogger.ts) or a Caliper endpoint
+ * (caliperLogger.ts).
+ *
+ * We retry until the endpoint accepts a batch: on 429, after as long
+ * as `Retry-After` asks, and on network failures, server errors, and
+ * errors about our credentials or the endpoint (401, 403, 404), with
+ * exponential backoff. Other client errors (see `util.isRejection`)
+ * mean the endpoint will never take what we sent. For a batch, we then send its items one at a time,
+ * so one bad item does not hold back the rest, and only those the
+ * endpoint rejects go to the queue's dead-letter store.
+ */
+import * as util from './util.js';
+import * as debug from './debugLog.js';
+import type { Queue } from './queue.js';
+
+export interface PosterOptions {
+  /** The logger posting, for messages */
+  name: string;
+  /** What we post to, for messages, e.g. 'LRS' */
+  target: string;
+  /** Where items the endpoint rejects go */
+  queue: Queue;
+  /** Make one POST of `items` */
+  post: (items: unknown[], signal: AbortSignal) => Promise<Response>;
+  /** Whether a rejection of a single item means it is already stored */
+  alreadyStored?: (response: Response) => boolean;
+}
+
+// Thrown for responses where sending the same items again cannot help
+export class RejectedError extends Error {
+  status: number;
+
+  constructor (target: string, status: number, message: string) {
+    super(`${target} rejected what we sent (${status}): ${message}`);
+    this.name = 'RejectedError';
+    this.status = status;
+  }
+}
+
+function calculateExponentialBackoff (n: number) {
+  return Math.min(1000 * Math.pow(2, n), 1000 * 60 * 15);
+}
+
+export function poster ({ name, target, queue, post, alreadyStored = () => false }: PosterOptions) {
+  let failures = 0;
+  // Aborted by `stop()`, to give up on a POST in progress
+  let stopController = new AbortController();
+
+  /**
+   * POST `items`, retrying transient failures until the endpoint
+   * accepts them. Throws a `RejectedError` if it never will take a
+   * single item, or an `Error` if we are stopped first.
+   */
+  async function postItems (items: unknown[]): Promise<void> {
+    while (true) {
+      if (stopController.signal.aborted) {
+        throw new Error(`${name}: stopped`);
+      }
+      let response: Response | null = null;
+      try {
+        response = await post(items, stopController.signal);
+      } catch (e) {
+        if (stopController.signal.aborted) {
+          continue;
+        }
+        debug.error(`${name}: could not reach ${target}`, e);
+      }
+      if (response?.ok) {
+        failures = 0;
+        return;
+      }
+      if (response && util.isRejection(response.status)) {
+        if (items.length > 1) {
+          await postEach(items);
+          return;
+        }
+        if (alreadyStored(response)) {
+          debug.info(`${name}: already stored`);
+          return;
+        }
+        throw new RejectedError(target, response.status, await response.text());
+      }
+      failures++;
+      const wait = response?.status === 429 ? util.retryAfter(response) : null;
+      if (response) {
+        debug.error(`${name}: ${target} responded with status ${response.status}`);
+      }
+      await util.delay(wait ?? calculateExponentialBackoff(failures), stopController.signal);
+    }
+  }
+
+  /**
+   * POST `items` one at a time, setting aside those the endpoint
+   * rejects.
+   */
+  async function postEach (items: unknown[]) {
+    for (const item of items) {
+      try {
+        await postItems([item]);
+      } catch (e) {
+        if (!(e instanceof RejectedError)) {
+          throw e;
+        }
+        debug.error(`${name}: ${target} rejected an item; moving it to the dead-letter store`, e);
+        await queue.deadLetter(item, e);
+      }
+    }
+  }
+
+  return {
+    post: postItems,
+    start () {
+      stopController = new AbortController();
+    },
+    stop () {
+      stopController.abort();
+    },
+    // Whether our last POST succeeded
+    connected () {
+      return failures === 0;
+    }
+  };
+}
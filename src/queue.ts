@@ -1,66 +1,648 @@
 import * as indexeddbQueue from './indexeddbQueue.js';
 import * as memoryQueue from './memoryQueue.js';
+import * as fileQueue from './fileQueue.js';
 import * as debug from './debugLog.js';
+import * as leader from './leader.js';
 import * as util from './util.js';
-import type { QueueBackend, DequeueLoopConfig } from './types.js';
+import type { QueueBackend, DequeueLoopConfig, QueueLimits, OverflowInfo, QueueStatus } from './types.js';
 
 export const QueueType = {
-  AUTODETECT: 'AUTODETECT', // Persistent if available, otherwise in-memory
+  AUTODETECT: 'AUTODETECT', // IndexedDB if available, else a journal file in node, else in-memory.
   IN_MEMORY: 'IN_MEMORY', // memoryQueue
-  PERSISTENT: 'PERSISTENT' // SQLite or IndexedDB. Raise an exception if not available.
+  PERSISTENT: 'PERSISTENT', // IndexedDB in browsers, a journal file in node. Raise an exception if not available.
+  INDEXEDDB: 'INDEXEDDB', // indexeddbQueue
+  FILE: 'FILE' // fileQueue
 } as const;
 
-const queueClasses: Record<string, new (name: string) => QueueBackend> = {
+/**
+ * What to do with events once a queue reaches `maxItems` or `maxBytes`.
+ */
+export const OVERFLOW_POLICY = {
+  DROP_OLDEST: 'DROP_OLDEST', // Make room by discarding the oldest events
+  DROP_NEWEST: 'DROP_NEWEST', // Discard incoming events until there is room
+  DROP_BY_PRIORITY: 'DROP_BY_PRIORITY', // Discard the oldest of the least important events (see `priorityOf`)
+  SAMPLE: 'SAMPLE' // Keep a random `sampleRate` fraction of incoming events, discarding the oldest to make room
+} as const;
+
+/**
+ * Default priority of an item, for `DROP_BY_PRIORITY`: its numeric
+ * `priority` field, if any. Higher is more important.
+ */
+function defaultPriorityOf (item: unknown) {
+  const priority = (item as Record<string, unknown> | null)?.priority;
+  return typeof priority === 'number' ? priority : 0;
+}
+
+/**
+ * The standard `queue_overflow` event, for use as a queue's
+ * `overflowEvent`. Loggers whose queues hold encoded events should
+ * JSON-encode it.
+ */
+export function queueOverflowEvent (info: OverflowInfo) {
+  const event = { ...info, event: 'queue_overflow' };
+  util.timestampEvent(event);
+  return event;
+}
+
+interface QueueBackendOptions {
+  directory?: string;
+}
+
+/**
+ * An item the dequeue loop gave up on, as kept in the dead-letter store.
+ */
+export interface DeadLetter {
+  item: unknown;
+  lane?: string;
+  error: string;
+  attempts: number;
+  ts: number;
+}
+
+const queueClasses: Record<string, new (name: string, options?: QueueBackendOptions) => QueueBackend> = {
   [QueueType.IN_MEMORY]: memoryQueue.Queue,
-  [QueueType.PERSISTENT]: indexeddbQueue.Queue
+  [QueueType.INDEXEDDB]: indexeddbQueue.Queue,
+  [QueueType.FILE]: fileQueue.Queue
 };
 
-function autodetect () {
-  if (typeof indexedDB === 'undefined') {
-    return QueueType.IN_MEMORY;
-  } else {
-    return QueueType.PERSISTENT;
+function hasFilesystem () {
+  return typeof process !== 'undefined' && !!process.versions?.node;
+}
+
+/**
+ * The best persistent backend for this environment, if any.
+ */
+function persistentType () {
+  if (typeof indexedDB !== 'undefined') {
+    return QueueType.INDEXEDDB;
+  } else if (hasFilesystem()) {
+    return QueueType.FILE;
   }
+  return null;
+}
+
+/**
+ * The persistent backend where there is one (IndexedDB, or a journal
+ * file in node; see fileQueue.ts), and memory otherwise.
+ */
+function autodetect () {
+  return persistentType() ?? QueueType.IN_MEMORY;
 }
 
+// The lane of a queue created without `lanes`
+const DEFAULT_LANE = 'default';
+
+interface Lane {
+  name: string;
+  backend: QueueBackend;
+}
+
+const STOPPED = Symbol('stopped');
+
 export class Queue {
-  private queue: QueueBackend;
+  // Most important first
+  private lanes: Lane[];
+  private defaultLane: Lane;
+  private queueName: string;
+  private queueType: string;
+  private directory: string | undefined;
+  private deadLetterQueue: QueueBackend | null;
+  private coordinate: boolean;
+  private limits: Required<QueueLimits>;
+  private overflowEvent: ((info: OverflowInfo) => unknown) | null;
+  // Our own accounting of what is in the backend, used to enforce limits.
+  private length: number;
+  private bytes: number;
+  private priorityCounts: Map<number, number>;
+  // Items enqueued while we count a persistent backlog (see `seed`),
+  // or `null` once we have.
+  private early: { item: unknown; lane: string }[] | null;
+  private seeding: Promise<void>;
+  // Whether we have just counted what the backends hold (see `seed`)
+  private counted: boolean;
+  // Events discarded since we last reported an overflow.
+  private dropped: number;
+  private evicting: Promise<void>;
+  // Aborted by `stop()`; the dequeue loop gives up whatever it is
+  // waiting for, and exits.
+  private stopController: AbortController;
+  private loop: Promise<void> | null;
   startDequeueLoop: (config: DequeueLoopConfig) => Promise<void>;
 
-  constructor (queueName: string, { queueType = QueueType.AUTODETECT as string } = {}) {
+  /**
+   * `limits` bound the queue, which is otherwise unbounded. When the
+   * queue overflows, `overflowEvent`, if given, builds an item (e.g. a
+   * `queue_overflow` event) recording how many events were discarded.
+   * The dequeue loop delivers it ahead of the next item.
+   *
+   * With `coordinate`, only one tab at a time runs the dequeue loop
+   * (see leader.ts). This is the default for IndexedDB, which is
+   * shared between tabs.
+   *
+   * `lanes` splits the queue into several, named from most to least
+   * important, each with its own backend. The dequeue loop always
+   * drains more important lanes first, so e.g. a submission is not
+   * stuck behind thousands of mouse events. Items go in `defaultLane`
+   * (by default, the first) unless `enqueue` says otherwise. When a
+   * queue with lanes overflows, we make room in the least important
+   * lane first, and `DROP_BY_PRIORITY` (the default) uses the lane as
+   * the priority.
+   */
+  constructor (
+    queueName: string,
+    {
+      queueType = QueueType.AUTODETECT as string,
+      directory = undefined as string | undefined,
+      limits = {} as QueueLimits,
+      overflowEvent = null as ((info: OverflowInfo) => unknown) | null,
+      coordinate = undefined as boolean | undefined,
+      lanes = [] as string[],
+      defaultLane = undefined as string | undefined
+    } = {}
+  ) {
     if (queueType === QueueType.AUTODETECT) {
       queueType = autodetect();
+    } else if (queueType === QueueType.PERSISTENT) {
+      // IndexedDB raises an exception where it is not available.
+      queueType = persistentType() ?? QueueType.INDEXEDDB;
     }
 
     const QueueClass = queueClasses[queueType];
-    if (QueueClass) {
-      debug.info(`Queue: using ${queueType.toLowerCase()}Queue`);
-      this.queue = new QueueClass(queueName);
-    } else {
+    if (!QueueClass) {
       throw new Error('Invalid queue type');
     }
+    debug.info(`Queue: using ${queueType.toLowerCase()}Queue`);
+    const laneNames = lanes.length > 0 ? lanes : [DEFAULT_LANE];
+    defaultLane = defaultLane ?? laneNames[0];
+    if (!laneNames.includes(defaultLane)) {
+      throw new Error(`Default lane ${defaultLane} is not one of the queue's lanes`);
+    }
+    // The default lane keeps the queue's own name, so persistent items
+    // from before a queue had lanes are still delivered.
+    this.lanes = laneNames.map(name => ({
+      name,
+      backend: new QueueClass(name === defaultLane ? queueName : `${queueName}-${name}`, { directory })
+    }));
+    this.defaultLane = this.lanes.find(({ name }) => name === defaultLane)!;
+
+    this.queueName = queueName;
+    this.queueType = queueType;
+    this.directory = directory;
+    this.deadLetterQueue = null;
+    this.coordinate = coordinate ?? queueType === QueueType.INDEXEDDB;
+    this.limits = {
+      maxItems: Infinity,
+      maxBytes: Infinity,
+      overflowPolicy: this.lanes.length > 1 ? OVERFLOW_POLICY.DROP_BY_PRIORITY : OVERFLOW_POLICY.DROP_OLDEST,
+      sampleRate: 0.1,
+      priorityOf: defaultPriorityOf,
+      ...limits
+    };
+    this.overflowEvent = overflowEvent;
+    this.length = 0;
+    this.bytes = 0;
+    this.priorityCounts = new Map();
+    this.early = null;
+    this.seeding = Promise.resolve();
+    this.counted = false;
+    this.dropped = 0;
+    this.evicting = Promise.resolve();
+    if (this.isBounded() && queueType !== QueueType.IN_MEMORY) {
+      this.early = [];
+      this.seeding = this.seed();
+    }
+    this.stopController = new AbortController();
+    this.loop = null;
 
     this.enqueue = this.enqueue.bind(this);
-    this.startDequeueLoop = util.once(this._startDequeueLoop.bind(this));
+    this.drain = this.drain.bind(this);
+    this.startDequeueLoop = this.onceDequeueLoop();
+  }
+
+  private onceDequeueLoop () {
+    return util.once((config: DequeueLoopConfig) => {
+      this.loop = this._startDequeueLoop(config);
+      return this.loop;
+    });
+  }
+
+  /**
+   * Stop the dequeue loop, and wait for it to exit. An `onDequeue`
+   * already running is left to finish, and whatever it was given is
+   * left in the queue, unless it succeeds. We stop leading other tabs
+   * (see leader.ts), so one of them may take over. The loop may be
+   * started again afterwards.
+   */
+  async stop () {
+    this.stopController.abort();
+    await this.loop;
+    this.loop = null;
+    if (this.coordinate) {
+      leader.resign(`queue:${this.queueName}`);
+    }
+    this.stopController = new AbortController();
+    this.startDequeueLoop = this.onceDequeueLoop();
+  }
+
+  private stopped () {
+    return this.stopController.signal.aborted;
+  }
+
+  /**
+   * `promise`, or `STOPPED` if the queue is stopped first.
+   */
+  private untilStopped<T> (promise: Promise<T> | T): Promise<T | typeof STOPPED> {
+    const signal = this.stopController.signal;
+    if (signal.aborted) {
+      return Promise.resolve(STOPPED);
+    }
+    let onAbort!: () => void;
+    const stopped = new Promise<typeof STOPPED>(resolve => {
+      onAbort = () => resolve(STOPPED);
+    });
+    signal.addEventListener('abort', onAbort, { once: true });
+    return Promise.race([promise, stopped]).finally(() => signal.removeEventListener('abort', onAbort));
+  }
+
+  private isBounded () {
+    return this.limits.maxItems !== Infinity || this.limits.maxBytes !== Infinity;
+  }
+
+  private isFull (extraBytes = 0) {
+    return this.length >= this.limits.maxItems || this.bytes + extraBytes > this.limits.maxBytes;
+  }
+
+  private isOverLimit () {
+    return this.length > this.limits.maxItems || this.bytes > this.limits.maxBytes;
+  }
+
+  private lane (name: string) {
+    const lane = this.lanes.find(lane => lane.name === name);
+    if (!lane) {
+      debug.error(`QUEUE: ${this.queueName} has no lane ${name}; using ${this.defaultLane.name}`);
+    }
+    return lane ?? this.defaultLane;
+  }
+
+  private isLaned () {
+    return this.lanes.length > 1;
+  }
+
+  /**
+   * Higher is more important. With lanes, this is minus the lane's
+   * position, so the first lane is 0.
+   */
+  private priorityOf (item: unknown, lane: Lane) {
+    return this.isLaned() ? -this.lanes.indexOf(lane) : this.limits.priorityOf(item);
+  }
+
+  /**
+   * Track an item entering (`sign` 1) or leaving (`sign` -1) a backend.
+   */
+  private account (item: unknown, sign: 1 | -1, lane: Lane) {
+    if (!this.isBounded()) {
+      return;
+    }
+    this.length = Math.max(0, this.length + sign);
+    if (this.limits.maxBytes !== Infinity) {
+      this.bytes = Math.max(0, this.bytes + sign * util.itemSize(item));
+    }
+    if (this.isLaned() || this.limits.overflowPolicy === OVERFLOW_POLICY.DROP_BY_PRIORITY) {
+      const priority = this.priorityOf(item, lane);
+      const count = (this.priorityCounts.get(priority) ?? 0) + sign;
+      if (count > 0) {
+        this.priorityCounts.set(priority, count);
+      } else {
+        this.priorityCounts.delete(priority);
+      }
+    }
+  }
+
+  /**
+   * Count what a persistent backend already holds (e.g. a backlog from
+   * days offline), so our limits apply to it. Until we have, we hold on
+   * to new items, and then enqueue them as usual. We count again when
+   * other tabs share the queue (see `enqueue`).
+   */
+  private async seed () {
+    try {
+      let length = 0;
+      let bytes = 0;
+      const priorityCounts = new Map<number, number>();
+      for (const lane of this.lanes) {
+        const size = await lane.backend.size();
+        length += size;
+        if (this.limits.maxBytes !== Infinity) {
+          bytes += await lane.backend.byteSize();
+        }
+        if (this.isLaned()) {
+          const priority = this.priorityOf(null, lane);
+          priorityCounts.set(priority, (priorityCounts.get(priority) ?? 0) + size);
+        } else if (this.limits.overflowPolicy === OVERFLOW_POLICY.DROP_BY_PRIORITY) {
+          for (const item of await lane.backend.peek(size)) {
+            const priority = this.priorityOf(item, lane);
+            priorityCounts.set(priority, (priorityCounts.get(priority) ?? 0) + 1);
+          }
+        }
+      }
+      this.length = length;
+      this.bytes = bytes;
+      this.priorityCounts = priorityCounts;
+      if (this.isOverLimit()) {
+        this.evict();
+      }
+    } catch (error) {
+      debug.error(`QUEUE: could not count what ${this.queueName} holds; its limits only apply to new items`, error);
+    }
+    const early = this.early ?? [];
+    this.early = null;
+    this.counted = true;
+    early.forEach(({ item, lane }) => this.enqueue(item, { lane }));
+    this.counted = false;
+  }
+
+  private recordDrop (count: number) {
+    if (this.dropped === 0) {
+      debug.error(`QUEUE: ${this.queueName} is full; discarding events (${this.limits.overflowPolicy})`);
+    }
+    this.dropped += count;
   }
 
-  enqueue (item: unknown) {
-    this.queue.enqueue(item);
+  /**
+   * Discard items, oldest first, until we are within our limits: any
+   * items, or only those of `priority`. With lanes, we discard from the
+   * least important lane first. Backends may be asynchronous, so we
+   * chain evictions to keep our accounting consistent.
+   */
+  private evict (priority?: number) {
+    this.evicting = this.evicting.then(async () => {
+      while (this.isOverLimit()) {
+        let lane = this.defaultLane;
+        let predicate: ((item: unknown) => boolean) | undefined;
+        if (this.isLaned()) {
+          if (priority === undefined && this.priorityCounts.size === 0) {
+            break;
+          }
+          lane = this.lanes[-(priority ?? Math.min(...this.priorityCounts.keys()))];
+        } else if (priority !== undefined) {
+          predicate = queued => this.limits.priorityOf(queued) === priority;
+        }
+        const item = await lane.backend.discard(predicate);
+        if (item === undefined) {
+          break;
+        }
+        this.account(item, -1, lane);
+        this.recordDrop(1);
+      }
+    });
+  }
+
+  private push (item: unknown, lane: Lane) {
+    lane.backend.enqueue(item);
+    this.account(item, 1, lane);
+  }
+
+  /**
+   * If we discarded anything since the last report, log it, and build
+   * the item reporting it (if we have an `overflowEvent`).
+   */
+  private overflowReport () {
+    if (this.dropped === 0) {
+      return null;
+    }
+    const info = { queue: this.queueName, policy: this.limits.overflowPolicy, dropped: this.dropped };
+    this.dropped = 0;
+    debug.info(`QUEUE: ${info.queue} discarded ${info.dropped} events`);
+    return this.overflowEvent ? this.overflowEvent(info) : null;
+  }
+
+  /**
+   * Add `item` to the end of `lane` (by default, the default lane).
+   */
+  enqueue (item: unknown, { lane: laneName = this.defaultLane.name }: { lane?: string } = {}) {
+    if (this.early) {
+      this.early.push({ item, lane: laneName });
+      return;
+    }
+    const lane = this.lane(laneName);
+    if (this.isBounded() && this.isFull(this.limits.maxBytes !== Infinity ? util.itemSize(item) : 0)) {
+      if (this.coordinate && !this.counted) {
+        // Other tabs add to our backends, and the leader removes what
+        // it sends, so we only know how full we are once we count.
+        this.early = [{ item, lane: laneName }];
+        this.seeding = this.seed();
+        return;
+      }
+      switch (this.limits.overflowPolicy) {
+        case OVERFLOW_POLICY.DROP_NEWEST:
+          this.recordDrop(1);
+          return;
+        case OVERFLOW_POLICY.SAMPLE:
+          if (Math.random() >= this.limits.sampleRate) {
+            this.recordDrop(1);
+            return;
+          }
+          break;
+        case OVERFLOW_POLICY.DROP_BY_PRIORITY: {
+          const priority = this.priorityOf(item, lane);
+          const lowest = Math.min(...this.priorityCounts.keys());
+          if (lowest > priority) {
+            // Everything queued matters more than this item
+            this.recordDrop(1);
+            return;
+          }
+          this.push(item, lane);
+          this.evict(lowest);
+          return;
+        }
+      }
+      this.push(item, lane);
+      this.evict();
+      return;
+    }
+    this.push(item, lane);
+  }
+
+  async size () {
+    let total = this.early?.length ?? 0;
+    for (const { backend } of this.lanes) {
+      total += await backend.size();
+    }
+    return total;
+  }
+
+  /**
+   * Resolves once the queue is not empty.
+   */
+  async waitForItem () {
+    await this.seeding;
+    await Promise.race(this.lanes.map(({ backend }) => backend.waitForItem()));
+  }
+
+  async byteSize () {
+    let total = 0;
+    for (const { backend } of this.lanes) {
+      total += await backend.byteSize();
+    }
+    return total;
+  }
+
+  async oldestTimestamp () {
+    let oldest: number | null = null;
+    for (const { backend } of this.lanes) {
+      const ts = await backend.oldestTimestamp();
+      if (ts !== null && (oldest === null || ts < oldest)) {
+        oldest = ts;
+      }
+    }
+    return oldest;
+  }
+
+  /**
+   * The next `n` items, in the order the dequeue loop would deliver
+   * them, without removing them.
+   */
+  async peek (n = 1) {
+    const items: unknown[] = [];
+    for (const { backend } of this.lanes) {
+      if (items.length >= n) {
+        break;
+      }
+      items.push(...await backend.peek(n - items.length));
+    }
+    return items;
+  }
+
+  async clear () {
+    await this.seeding;
+    for (const { backend } of this.lanes) {
+      await backend.clear();
+    }
+    this.length = 0;
+    this.bytes = 0;
+    this.priorityCounts.clear();
+  }
+
+  async status (): Promise<QueueStatus> {
+    return {
+      size: await this.size(),
+      byteSize: await this.byteSize(),
+      oldestTimestamp: await this.oldestTimestamp(),
+      deadLetters: this.deadLetterQueue ? await this.deadLetterQueue.size() : 0,
+      leader: this.isLeader()
+    };
+  }
+
+  /**
+   * Resolves once this tab may drain the queue: immediately, unless
+   * we coordinate with other tabs.
+   */
+  leadership () {
+    return this.coordinate ? leader.waitForLeadership(`queue:${this.queueName}`) : Promise.resolve();
+  }
+
+  isLeader () {
+    return !this.coordinate || leader.isLeader(`queue:${this.queueName}`);
+  }
+
+  /**
+   * Items the dequeue loop gave up on are kept in a second backend of
+   * the same type, so persistent queues keep them across reloads. We
+   * only create it once it is needed.
+   */
+  private deadLetterStore () {
+    if (!this.deadLetterQueue) {
+      const QueueClass = queueClasses[this.queueType];
+      this.deadLetterQueue = new QueueClass(`${this.queueName}-deadletter`, { directory: this.directory });
+    }
+    return this.deadLetterQueue;
+  }
+
+  /**
+   * The first `n` dead letters, oldest first.
+   */
+  async deadLetters (n = Infinity): Promise<DeadLetter[]> {
+    return await this.deadLetterStore().peek(n) as DeadLetter[];
+  }
+
+  /**
+   * Put `item` in the dead-letter store ourselves, e.g. when a server
+   * rejects one item of a batch it otherwise accepted.
+   */
+  async deadLetter (item: unknown, error: unknown) {
+    await this.deadLetterStore().enqueue({ item, lane: this.defaultLane.name, error: String(error), attempts: 1, ts: Date.now() });
+  }
+
+  /**
+   * Move every dead letter back onto the queue, e.g. once the server
+   * has been fixed. Returns how many were moved.
+   */
+  async retryDeadLetters () {
+    const deadLetterQueue = this.deadLetterStore();
+    const letters = await this.deadLetters();
+    await deadLetterQueue.clear();
+    letters.forEach(({ item, lane }) => this.enqueue(item, { lane }));
+    return letters.length;
+  }
+
+  /**
+   * Synchronously remove and return all pending items, for use when
+   * the page is unloading. Persistent backends keep their items across
+   * reloads, and cannot be read synchronously, so they return nothing.
+   */
+  drain (): unknown[] {
+    const early = this.early?.splice(0).map(({ item }) => item) ?? [];
+    return [...this.lanes.flatMap(({ backend }) => backend.drain ? backend.drain() : []), ...early];
+  }
+
+  /**
+   * The most important lane with items in it, waiting for one if
+   * they are all empty.
+   */
+  private async nextLane () {
+    if (!this.isLaned()) {
+      return this.defaultLane;
+    }
+    while (true) {
+      for (const lane of this.lanes) {
+        if (await lane.backend.size() > 0) {
+          return lane;
+        }
+      }
+      await Promise.race(this.lanes.map(({ backend }) => backend.waitForItem()));
+    }
   }
 
   /**
    * This function starts a loop to continually
    * dequeue items and process them appropriately
    * based on provided functions.
+   *
+   * We lease items from the backend, and only commit (remove) them
+   * once `onDequeue` succeeds. On failure, we abort the lease, leaving
+   * them at the head of the queue, and retry with exponential backoff.
    */
   private async _startDequeueLoop ({
     initialize = async () => true,
     shouldDequeue = async () => true,
     onDequeue = async (_item: unknown) => {},
-    onError = (message: string, error: unknown) => debug.error(message, error)
+    onError = (message: string, error: unknown) => debug.error(message, error),
+    batchSize = undefined,
+    maxRetries = 3,
+    retryDelay = 1000
   }: DequeueLoopConfig = {}) {
+    if (this.coordinate && !this.isLeader()) {
+      debug.info(`QUEUE: Waiting for this tab to lead ${this.queueName}`);
+    }
+    if (await this.untilStopped(this.leadership()) === STOPPED) {
+      return;
+    }
     try {
-      if (!await initialize()) {
+      const initialized = await this.untilStopped(initialize());
+      if (initialized === STOPPED) {
+        return;
+      }
+      if (!initialized) {
         throw new Error('QUEUE ERROR: Initialization function returned false.');
       }
     } catch (error) {
@@ -69,6 +651,10 @@ export class Queue {
     }
     debug.info('QUEUE: Dequeue loop initialized.');
 
+    // Failed attempts at the items at the head of the queue
+    let failures = 0;
+    let overflow: unknown = null;
+
     while (true) {
       // Check if we are allowed to continue dequeueing.
       // When shouldDequeue() returns false, we permanently terminate
@@ -79,7 +665,11 @@ export class Queue {
       // (e.g. rate limits) are handled inside disabler.retry() by
       // awaiting the expiration before returning true.
       try {
-        if (!await shouldDequeue()) {
+        const allowed = await this.untilStopped(shouldDequeue());
+        if (allowed === STOPPED) {
+          return;
+        }
+        if (!allowed) {
           throw new Error('QUEUE ERROR: Dequeue streaming returned false.');
         }
       } catch (error) {
@@ -87,15 +677,50 @@ export class Queue {
         return;
       }
 
-      // do something with the item
-      const item = await this.queue.dequeue();
+      // do something with the item(s)
+      const lane = await this.untilStopped(this.nextLane());
+      if (lane === STOPPED) {
+        return;
+      }
+      const items = await this.untilStopped(lane.backend.lease(batchSize ?? 1));
+      if (items === STOPPED) {
+        return;
+      }
+      // An overflow report is kept until it is delivered.
+      overflow = overflow ?? this.overflowReport();
       try {
-        if (item !== null) {
-          await onDequeue(item);
+        if (batchSize) {
+          await onDequeue(overflow === null ? items : [overflow, ...items]);
+          overflow = null;
+        } else {
+          if (overflow !== null) {
+            await onDequeue(overflow);
+            overflow = null;
+          }
+          if (items[0] !== null) {
+            await onDequeue(items[0]);
+          }
         }
       } catch (error) {
-        onError('QUEUE ERROR: Unable to process item', error);
+        if (this.stopped()) {
+          // Most likely, `onDequeue` gave up because we are stopping
+          await lane.backend.abort();
+          return;
+        }
+        failures++;
+        if (failures <= maxRetries) {
+          onError(`QUEUE ERROR: Unable to process ${batchSize ? 'batch' : 'item'}; retrying (${failures}/${maxRetries})`, error);
+          await lane.backend.abort();
+          await util.delay(retryDelay * Math.pow(2, failures - 1), this.stopController.signal);
+          continue;
+        }
+        onError(`QUEUE ERROR: Unable to process ${batchSize ? 'batch' : 'item'}; moving it to the dead-letter store`, error);
+        const deadLetterQueue = this.deadLetterStore();
+        items.forEach(item => deadLetterQueue.enqueue({ item, lane: lane.name, error: String(error), attempts: failures, ts: Date.now() }));
       }
+      await lane.backend.commit();
+      items.forEach(item => this.account(item, -1, lane));
+      failures = 0;
     }
   }
 }
@@ -0,0 +1,189 @@
+/*
+ * Redaction of personal information before it leaves the page.
+ *
+ * Some of what we capture can hold things we should never store:
+ * `browserEvents` copies the `value` of input elements, `getBrowserInfo`
+ * copies `document.cookie`, and `localStorageInfo()` copies all of
+ * localStorage. With `redaction` in `lo_event.init`'s options, we
+ * redact events before they are queued, and locked fields before
+ * loggers see them:
+ *
+ *   lo_event.init(source, version, loggers, {
+ *     redaction: {
+ *       rules: [
+ *         ...COMMON_RULES,
+ *         { path: 'answer.student_email', action: 'hash' }
+ *       ],
+ *       detectors: [
+ *         { detector: 'email', action: 'hash' },
+ *         { detector: 'ssn', action: 'mask' }
+ *       ],
+ *       salt: deploymentSalt
+ *     }
+ *   });
+ *
+ * Rules name fields by path; detectors find patterns (emails, phone
+ * numbers, SSNs) in any string. Each redacts by dropping, masking, or
+ * hashing with the deployment's salt, so researchers can still tell
+ * which events came from the same (hidden) value. We list the paths we
+ * redacted in the event's `metadata.redacted`.
+ */
+import { compileFilter } from './eventFilter.js';
+import * as util from './util.js';
+import type { RedactionAction, RedactionOptions, RedactionRule } from './types.js';
+
+export const REDACTION_ACTION = {
+  DROP: 'drop',
+  HASH: 'hash',
+  MASK: 'mask'
+} as const;
+
+/**
+ * Patterns for `detectors`, by name. These favor catching too much:
+ * phone numbers need separators, so plain runs of digits (ids,
+ * timestamps) are left alone.
+ */
+export const DETECTORS: Record<string, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone: /(?<!\d)(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?!\d)/g,
+  ssn: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g
+};
+
+/**
+ * Rules for the personal information lo_event itself can capture:
+ * input values in browser events, cookies in browser info, and
+ * storage contents.
+ */
+export const COMMON_RULES: RedactionRule[] = [
+  { path: '*.value', action: REDACTION_ACTION.MASK, events: ['browser.*'] },
+  { path: 'browser_info.document.cookie', action: REDACTION_ACTION.DROP },
+  { path: 'localStorageInfo', action: REDACTION_ACTION.DROP },
+  { path: 'sessionStorageInfo', action: REDACTION_ACTION.DROP }
+];
+
+// Ours, not the event's, so never redacted
+const RESERVED_KEYS = ['event', 'metadata'];
+
+/**
+ * `path` as a list of keys, with `a[0].b` as `a`, `0`, `b`
+ */
+function splitPath (path: string) {
+  return path.split('.').flatMap(segment => segment.split(/[[\]]/).filter(Boolean));
+}
+
+/**
+ * The path of `key` within `node`, at `prefix`, as `splitPath` reads it
+ */
+function joinPath (prefix: string, node: object, key: string) {
+  if (Array.isArray(node)) {
+    return `${prefix}[${key}]`;
+  }
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+/**
+ * A function which redacts a value (an event, or locked fields) per
+ * `options`, given the event type to match rules against. It returns
+ * a redacted copy, and the paths it redacted; the value itself is left
+ * alone. Throws if `options` ask for hashes without a salt.
+ */
+export function createRedactor ({ rules = [], detectors = [], salt }: RedactionOptions) {
+  const actions = [...rules, ...detectors].map(rule => rule.action);
+  if (actions.includes(REDACTION_ACTION.HASH) && !salt) {
+    throw new Error('Redaction needs a salt to hash values');
+  }
+  const compiledRules = rules.map(rule => ({
+    segments: splitPath(rule.path),
+    action: rule.action,
+    appliesTo: rule.events ? compileFilter({ events: rule.events }) : () => true
+  }));
+  const compiledDetectors = detectors.map(({ detector, action }) => {
+    const pattern = typeof detector === 'string' ? DETECTORS[detector] : detector;
+    if (!pattern) {
+      throw new Error(`Unknown redaction detector: ${detector}`);
+    }
+    return { pattern: new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g'), action };
+  });
+
+  function redactText (text: string, action: RedactionAction) {
+    switch (action) {
+      case REDACTION_ACTION.DROP:
+        return '';
+      case REDACTION_ACTION.HASH:
+        return util.sha256(`${salt}:${text}`);
+      default:
+        return '*'.repeat(text.length);
+    }
+  }
+
+  function applyRule (
+    node: unknown,
+    segments: string[],
+    prefix: string,
+    action: RedactionAction,
+    redacted: string[]
+  ) {
+    if (node === null || typeof node !== 'object') {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const [key, ...rest] = segments;
+    const keys = (key === '*' ? Object.keys(record) : [key])
+      .filter(k => k in record && !(prefix === '' && RESERVED_KEYS.includes(k)));
+    for (const k of keys) {
+      const path = joinPath(prefix, record, k);
+      if (rest.length > 0) {
+        applyRule(record[k], rest, path, action, redacted);
+      } else if (record[k] !== undefined && record[k] !== null) {
+        if (action === REDACTION_ACTION.DROP) {
+          delete record[k];
+        } else {
+          const value = record[k];
+          record[k] = redactText(typeof value === 'string' ? value : JSON.stringify(value), action);
+        }
+        redacted.push(path);
+      }
+    }
+  }
+
+  function applyDetectors (node: unknown, prefix: string, redacted: string[]) {
+    if (node === null || typeof node !== 'object') {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      if (prefix === '' && RESERVED_KEYS.includes(key)) {
+        continue;
+      }
+      const path = joinPath(prefix, record, key);
+      const value = record[key];
+      if (typeof value !== 'string') {
+        applyDetectors(value, path, redacted);
+        continue;
+      }
+      let text = value;
+      for (const { pattern, action } of compiledDetectors) {
+        text = text.replace(pattern, match => redactText(match, action));
+      }
+      if (text !== value) {
+        record[key] = text;
+        redacted.push(path);
+      }
+    }
+  }
+
+  return function redact<T extends Record<string, unknown>> (value: T, eventType: string) {
+    const redacted: string[] = [];
+    const copy = JSON.parse(JSON.stringify(value)) as T;
+    const event = { event: eventType };
+    for (const rule of compiledRules) {
+      if (rule.appliesTo(event)) {
+        applyRule(copy, rule.segments, '', rule.action, redacted);
+      }
+    }
+    if (compiledDetectors.length > 0) {
+      applyDetectors(copy, '', redacted);
+    }
+    return { value: copy, redacted: [...new Set(redacted)] };
+  };
+}
@@ -24,7 +24,8 @@ import { createStateSyncMiddleware, initMessageListener } from 'redux-state-sync
 import debounce from 'lodash/debounce.js';
 
 import * as util from './util.js';
-import type { Logger, ReducerFn, JSONObject, JSONValue } from './types.js';
+import { applyLockEvent } from './lockFields.js';
+import type { Logger, ReducerFn, JSONObject, JSONValue, EventAction } from './types.js';
 
 declare global {
   interface Window {
@@ -158,14 +159,19 @@ function store_last_event_reducer (state: JSONObject = {}, action: JSONObject):
 function lock_fields_reducer (state: JSONObject = {}, action: JSONObject): JSONObject {
   const a = action as ReduxAction;
   const payload = JSON.parse(a.payload as string);
+  const previous = state.lock_fields as JSONObject | undefined;
+  // A copy, since applying changes mutates it (see lockFields.ts)
+  const lockState = {
+    version: (previous?.version as number) ?? 0,
+    fields: JSON.parse(JSON.stringify(previous?.fields ?? {}))
+  };
+  applyLockEvent(lockState, payload);
   return {
     ...state,
     lock_fields: {
       ...payload,
-      fields: {
-        ...((state.lock_fields as JSONObject)?.fields as JSONObject || {}),
-        ...payload.fields
-      }
+      version: lockState.version,
+      fields: lockState.fields
     }
   };
 }
@@ -236,6 +242,20 @@ export const registerReducer = <S = JSONObject, A = JSONObject>(
   return reducer;
 };
 
+/**
+ * `registerReducer`, typed by an event map `E` (see
+ * `lo_event.createEventLogger`), so each reducer receives the payload
+ * type of the events it is registered for.
+ */
+export function createReducerRegistry<E extends object> () {
+  return {
+    registerReducer: <S = JSONObject, K extends keyof E & string = keyof E & string>(
+      keys: K | K[],
+      reducer: (state: S, action: EventAction<E, K>) => S
+    ) => registerReducer(keys, reducer)
+  };
+}
+
 // Reducer function
 const reducer = (state: JSONObject = {}, action: ReduxAction): JSONObject => {
   let payload;
@@ -0,0 +1,299 @@
+/*
+ * A registry of event schemas, checked when events are logged.
+ *
+ * Applications register a schema per event type:
+ *
+ *   registerSchema('submit', {
+ *     type: 'object',
+ *     properties: { response: { type: 'string' } },
+ *     required: ['response'],
+ *     additionalProperties: false
+ *   });
+ *
+ * after which `lo_event.logEvent('submit', { respone: '42' })` fails
+ * validation, rather than being discovered in the data months later.
+ *
+ * Schemas are a subset of JSON Schema (see `EventSchema`), checked by
+ * a small built-in validator, so we do not pull a full JSON Schema
+ * library into every client. Event types without a schema are not
+ * checked.
+ *
+ * What happens to an invalid event depends on the validation mode. In
+ * every mode but `OFF`, the failure is reported through `debugLog`,
+ * which (with the `LOGGER` output) sends it on as a `debug` event.
+ *
+ * `generateEventTypes` turns a set of schemas into a TypeScript event
+ * map, for use with `lo_event.createEventLogger`, so the same file can
+ * check events at compile time and at run time. The `lo-event-types`
+ * command runs it on a schema registry file.
+ */
+import * as debug from './debugLog.js';
+import type { EventSchema } from './types.js';
+
+export const VALIDATION_MODE = {
+  OFF: 'OFF', // Do not validate
+  WARN: 'WARN', // Report invalid events, but log them anyway
+  DROP: 'DROP', // Report and discard invalid events
+  THROW: 'THROW' // Report invalid events, and throw a SchemaValidationError
+} as const;
+
+export class SchemaValidationError extends Error {
+  eventType: string;
+  errors: string[];
+
+  constructor (eventType: string, errors: string[]) {
+    super(`Event ${eventType} does not match its schema: ${errors.join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.eventType = eventType;
+    this.errors = errors;
+  }
+}
+
+const schemas = new Map<string, EventSchema>();
+let validationMode: string = VALIDATION_MODE.WARN;
+
+export function setValidationMode (mode: string) {
+  if (!Object.values(VALIDATION_MODE).includes(mode as typeof VALIDATION_MODE[keyof typeof VALIDATION_MODE])) {
+    throw new Error(`Invalid validation mode ${mode}`);
+  }
+  validationMode = mode;
+}
+
+/**
+ * Register `schema` for events of `eventType`, replacing any
+ * previous one.
+ */
+export function registerSchema (eventType: string, schema: EventSchema) {
+  schemas.set(eventType, schema);
+}
+
+/**
+ * Register a schema for each event type in `registry`, e.g. the
+ * contents of a schema registry file.
+ */
+export function registerSchemas (registry: Record<string, EventSchema>) {
+  for (const [eventType, schema] of Object.entries(registry)) {
+    registerSchema(eventType, schema);
+  }
+}
+
+export function unregisterSchema (eventType: string) {
+  schemas.delete(eventType);
+}
+
+export function getSchema (eventType: string) {
+  return schemas.get(eventType);
+}
+
+/**
+ * Every registered schema, by event type.
+ */
+export function getSchemas (): Record<string, EventSchema> {
+  return Object.fromEntries(schemas);
+}
+
+function typeOf (value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType (value: unknown, type: string) {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Check `value` against `schema`. Returns a list of problems, each
+ * prefixed with where in `value` it was found (e.g. `response:`);
+ * empty if `value` is valid.
+ */
+export function validate (schema: EventSchema, value: unknown, path = ''): string[] {
+  const at = path ? `${path}: ` : '';
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Nothing else is meaningful for a value of the wrong type
+      return [`${at}expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    errors.push(`${at}must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${at}must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.anyOf !== undefined && !schema.anyOf.some(option => validate(option, value).length === 0)) {
+    errors.push(`${at}does not match any allowed schema`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => errors.push(...validate(schema.items!, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${at}missing required field ${key}`);
+      }
+    }
+    for (const [key, field] of Object.entries(record)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (key in properties) {
+        errors.push(...validate(properties[key], field, fieldPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}unexpected field ${key}`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validate(schema.additionalProperties, field, fieldPath));
+      }
+    }
+  }
+
+  return errors;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function propertyName (name: string) {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment (schema: EventSchema, indent: string) {
+  return schema.description ? `${indent}/** ${schema.description.replace(/\*\//g, '* /')} */\n` : '';
+}
+
+function objectType (schema: EventSchema, indent: string) {
+  const inner = indent + '  ';
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, field]) =>
+    `${docComment(field, inner)}${inner}${propertyName(name)}${required.has(name) ? '' : '?'}: ${schemaToType(field, inner)};\n`
+  );
+  // Like the validator, we allow other fields unless the schema says
+  // otherwise. Only `additionalProperties: false` catches misspelled
+  // field names at compile time.
+  if (schema.additionalProperties !== false) {
+    const extra = typeof schema.additionalProperties === 'object' ? schemaToType(schema.additionalProperties, inner) : 'unknown';
+    lines.push(`${inner}[key: string]: ${extra};\n`);
+  }
+  return lines.length > 0 ? `{\n${lines.join('')}${indent}}` : 'Record<string, never>';
+}
+
+/**
+ * The TypeScript type (as source) of values matching `schema`.
+ */
+export function schemaToType (schema: EventSchema, indent = ''): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum !== undefined) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (schema.anyOf !== undefined) {
+    return schema.anyOf.map(option => schemaToType(option, indent)).join(' | ');
+  }
+  if (schema.type === undefined) {
+    return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.map(type => {
+    switch (type) {
+      case 'integer':
+        return 'number';
+      case 'array':
+        return schema.items ? `Array<${schemaToType(schema.items, indent)}>` : 'unknown[]';
+      case 'object':
+        return objectType(schema, indent);
+      default:
+        return type;
+    }
+  }).join(' | ');
+}
+
+/**
+ * TypeScript source for an interface mapping each event type in
+ * `registry` to the type of its payload.
+ */
+export function generateEventTypes (
+  registry: Record<string, EventSchema>,
+  { interfaceName = 'Events', source = 'a schema registry' }: { interfaceName?: string; source?: string } = {}
+) {
+  const entries = Object.entries(registry).map(([eventType, schema]) =>
+    `${docComment(schema, '  ')}  ${propertyName(eventType)}: ${schemaToType(schema, '  ')};\n`
+  );
+  return `// Generated by lo-event-types from ${source}. Do not edit.\n\n` +
+    `export interface ${interfaceName} {\n${entries.join('')}}\n`;
+}
+
+/**
+ * Check `event` against the schema registered for `eventType`, if
+ * any, according to the validation mode. Returns whether the event
+ * should be logged; throws a `SchemaValidationError` in `THROW` mode.
+ */
+export function checkEvent (eventType: string, event: Record<string, unknown>) {
+  const schema = schemas.get(eventType);
+  if (!schema || validationMode === VALIDATION_MODE.OFF) {
+    return true;
+  }
+  return reportInvalid(eventType, validate(schema, event));
+}
+
+/**
+ * Handle the result of validating an event of `eventType` (by
+ * `validate`, or another validator), according to the validation
+ * mode: returns whether the event should be logged; throws a
+ * `SchemaValidationError` in `THROW` mode.
+ */
+export function reportInvalid (eventType: string, errors: string[]) {
+  if (errors.length === 0 || validationMode === VALIDATION_MODE.OFF) {
+    return true;
+  }
+  const error = new SchemaValidationError(eventType, errors);
+  debug.error(error.message, error);
+  switch (validationMode) {
+    case VALIDATION_MODE.THROW:
+      throw error;
+    case VALIDATION_MODE.DROP:
+      return false;
+    default:
+      return true;
+  }
+}
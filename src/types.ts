@@ -40,6 +40,35 @@ export interface Logger {
   lo_name?: string;
   lo_id?: string;
   getLockFields?: () => Record<string, unknown> | null;
+  drain?: () => string[];
+  getStatus?: () => LoggerStatus | Promise<LoggerStatus>;
+  /** Send everything pending; resolves to whether it all went out within `timeoutMs` */
+  flush?: (timeoutMs: number) => Promise<boolean>;
+  /** Stop sending, and end any loops and connections, until `init()` is called again */
+  stop?: () => Promise<void> | void;
+}
+
+/**
+ * Which events a logger receives (see eventFilter.ts). Event types
+ * are matched by globs, where `*` matches anything.
+ */
+export interface EventFilter {
+  /** Event types to send; by default, all */
+  events?: string[];
+  /** Event types not to send */
+  exclude?: string[];
+  /** Send only events for which this is true */
+  where?: (event: Record<string, unknown>) => boolean;
+  /** The fraction of events to send (0 to 1), chosen at random */
+  sample?: number;
+}
+
+/**
+ * A logger, with a filter, as passed to lo_event.init().
+ */
+export interface LoggerEntry {
+  logger: Logger;
+  filter: EventFilter;
 }
 
 /**
@@ -58,15 +87,84 @@ export interface MetadataTask {
 export interface QueueBackend {
   enqueue(item: unknown): void;
   dequeue(): unknown | Promise<unknown>;
+  /** Resolves once the queue is not empty. */
+  waitForItem(): Promise<void>;
+  /** Hand out up to `max` items from the head without removing them, waiting for at least one. */
+  lease(max: number): Promise<unknown[]>;
+  /** Remove the leased items. */
+  commit(): void | Promise<void>;
+  /** Release the lease; the items stay at the head of the queue. */
+  abort(): void | Promise<void>;
+  drain?(): unknown[];
+  /** Remove the oldest unleased item matching `predicate` (or the oldest item), returning it, or `undefined` if there is none. */
+  discard(predicate?: (item: unknown) => boolean): unknown | Promise<unknown>;
+  size(): number | Promise<number>;
+  byteSize(): number | Promise<number>;
+  /** When the oldest item was enqueued (ms since the epoch), or `null` if empty or unknown. */
+  oldestTimestamp(): number | null | Promise<number | null>;
+  peek(n?: number): unknown[] | Promise<unknown[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Snapshot of what is waiting in a queue.
+ */
+export interface QueueStatus {
+  size: number;
+  byteSize: number;
+  oldestTimestamp: number | null;
+  deadLetters: number;
+  /** Whether this tab drains the queue; see leader.ts */
+  leader: boolean;
+}
+
+/**
+ * What a logger reports about itself in `lo_event.getStatus()`.
+ */
+export interface LoggerStatus {
+  connected?: boolean;
+  queue?: QueueStatus;
+  [key: string]: unknown;
+}
+
+/**
+ * Size limits for a queue, and what to do when they are exceeded.
+ */
+export interface QueueLimits {
+  maxItems?: number;
+  maxBytes?: number;
+  overflowPolicy?: string;
+  sampleRate?: number;
+  priorityOf?: (item: unknown) => number;
+}
+
+/**
+ * Summary of events a queue discarded because it was full.
+ */
+export interface OverflowInfo {
+  queue: string;
+  policy: string;
+  dropped: number;
 }
 
 /**
  * Configuration for the dequeue loop in queue.ts.
+ *
+ * With `batchSize`, the loop dequeues up to that many items at a time,
+ * and `onDequeue` receives an array of items.
+ *
+ * Items are only removed from the queue once `onDequeue` succeeds. If
+ * it throws, we retry the same items after `retryDelay` ms (doubling
+ * each time), and after `maxRetries` failed retries, move them to the
+ * queue's dead-letter store.
  */
 export interface DequeueLoopConfig {
   initialize?: () => Promise<boolean> | boolean;
   shouldDequeue?: () => Promise<boolean> | boolean;
   onDequeue?: (item: unknown) => Promise<void> | void;
+  batchSize?: number;
+  maxRetries?: number;
+  retryDelay?: number;
   onError?: (message: string, error: unknown) => void;
 }
 
@@ -78,6 +176,64 @@ export interface StorageBackend {
   set(items: Record<string, unknown>, callback?: () => void): void;
 }
 
+/**
+ * The subset of JSON Schema understood by schema.ts.
+ */
+export interface EventSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, EventSchema>;
+  required?: string[];
+  additionalProperties?: boolean | EventSchema;
+  items?: EventSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: EventSchema[];
+  description?: string;
+}
+
+/**
+ * Options for lo_event.logEvent().
+ */
+export interface LogEventOptions {
+  /** One of lo_event.PRIORITY */
+  priority?: string;
+}
+
+/**
+ * A step in lo_event's event pipeline (see lo_event.use()). Returns
+ * the event to pass on, changed or not, or `null` to drop it.
+ */
+export type Middleware = (event: Record<string, unknown>) => Record<string, unknown> | null;
+
+/**
+ * Options for lo_event.use().
+ */
+export interface UseOptions {
+  /** Run only for this logger, as events are sent to it */
+  logger?: Logger;
+}
+
+/**
+ * What an application reducer receives for an event of type `K`, in
+ * an event map `E` (event types to payload types, as generated by
+ * `lo-event-types`).
+ */
+export type EventAction<E, K extends keyof E> = E[K] & { event: K };
+
+/**
+ * The API returned by lo_event.createEventLogger().
+ */
+export interface TypedEventLogger<E> {
+  logEvent<K extends keyof E & string>(eventType: K, event: E[K], options?: LogEventOptions): void;
+}
+
 /**
  * Init options for lo_event.init().
  */
@@ -86,7 +242,67 @@ export interface InitOptions {
   debugDest?: unknown[];
   useDisabler?: boolean;
   queueType?: string;
+  queueLimits?: QueueLimits;
   sendBrowserInfo?: boolean;
   verboseEvents?: boolean;
   metadata?: MetadataTask[];
+  beaconEndpoint?: string | null;
+  coordinateTabs?: boolean;
+  validationMode?: string;
+  redaction?: RedactionOptions;
+  consent?: ConsentOptions;
+}
+
+/**
+ * Consent categories for lo_event.init() (see consent.ts): names, each
+ * with the event types (as globs, as in EventFilter) it covers.
+ */
+export interface ConsentOptions {
+  categories: Record<string, string[]>;
+  /** What to do with events awaiting a decision: the disabler's MAINTAIN (the default) or DROP */
+  whilePending?: string;
+}
+
+/**
+ * Consent decisions which changed, by category, as logged in
+ * `consent_changed` events. `from` is `null` before a first decision.
+ */
+export type ConsentChanges = Record<string, { from: boolean | null; to: boolean }>;
+
+/**
+ * What to do with a value to redact: remove it, replace it with a
+ * salted hash (equal values still match), or replace each character
+ * with `*`. One of lo_event's REDACTION_ACTION.
+ */
+export type RedactionAction = 'drop' | 'hash' | 'mask';
+
+/**
+ * Redact the value at `path` (as for `util.treeget`, where a `*`
+ * segment matches any key), in events whose type matches one of
+ * `events` (globs, as in EventFilter; by default, all events), and in
+ * locked fields (as event type `lock_fields`).
+ */
+export interface RedactionRule {
+  path: string;
+  action: RedactionAction;
+  events?: string[];
+}
+
+/**
+ * Redact text matching `detector` (one of redact.ts's DETECTORS, or a
+ * pattern of our own) in any string in an event or locked field.
+ */
+export interface RedactionDetector {
+  detector: string | RegExp;
+  action: RedactionAction;
+}
+
+/**
+ * Redaction for lo_event.init() (see redact.ts).
+ */
+export interface RedactionOptions {
+  rules?: RedactionRule[];
+  detectors?: RedactionDetector[];
+  /** Per deployment, so hashes cannot be matched across deployments; needed to hash */
+  salt?: string;
 }
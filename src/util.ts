@@ -96,19 +96,78 @@ function browserStamp(): string {
   return cachedBrowserStamp;
 }
 
-let eventIndex = 0; // Initialize index counter
-let sessionStamp = keystamp();
+/**
+ * The session events are stamped with by `timestampEvent`: a tag, and
+ * a counter of events within it. Each lo_event instance has its own
+ * (see `createLoEvent`); the functions below use the default one.
+ */
+export interface EventSession {
+  tag(): string;
+  rotate(): string;
+  setVerbose(value: boolean): void;
+  timestampEvent(event: Record<string, unknown>): void;
+}
+
+export function createEventSession(): EventSession {
+  let eventIndex = 0; // Initialize index counter
+  let sessionStamp = keystamp();
+
+  // TODO:
+  // (a) We probably want this elsewhere
+  // (b) With the current flow of logic, init() might be called after logEvent,
+  //     and even if set to false, a few events might have extra metadata.
+  // This isn't a killer, since the reason not to do this is mostly due to
+  // bandwidth.
+  let verboseEvents = true;
+
+  return {
+    tag: () => sessionStamp,
+    // Later events get a new tag, and their index counts from zero again
+    rotate: () => {
+      sessionStamp = keystamp();
+      eventIndex = 0;
+      return sessionStamp;
+    },
+    setVerbose: (value) => {
+      verboseEvents = value;
+    },
+    timestampEvent: (event) => {
+      if (!event.metadata) {
+        event.metadata = {};
+      }
+
+      const metadata = event.metadata as Record<string, unknown>;
+      metadata.iso_ts = new Date().toISOString();
+      if(verboseEvents) {
+        metadata.ts = Date.now();
+        metadata.human_ts = Date();
+        metadata.sessionIndex = eventIndex++;
+        metadata.sessionTag = sessionStamp;
+        metadata.browserTag = browserStamp();
+      }
+    }
+  };
+}
 
-// TODO:
-// (a) We probably want this elsewhere
-// (b) With the current flow of logic, init() might be called after logEvent,
-//     and even if set to false, a few events might have extra metadata.
-// This isn't a killer, since the reason not to do this is mostly due to
-// bandwidth.
-let verboseEvents = true;
+export const defaultEventSession = createEventSession();
 
 export function setVerboseEvents(value: boolean): void {
-  verboseEvents = value;
+  defaultEventSession.setVerbose(value);
+}
+
+/**
+ * The tag `timestampEvent` stamps on events of the current session.
+ */
+export function getSessionTag(): string {
+  return defaultEventSession.tag();
+}
+
+/**
+ * Start a new session: later events get a new session tag, and their
+ * session index counts from zero again. Returns the new tag.
+ */
+export function rotateSessionTag(): string {
+  return defaultEventSession.rotate();
 }
 
 /**
@@ -119,19 +178,7 @@ export function setVerboseEvents(value: boolean): void {
  *  // { event: 'ADD', data: 'stuff', metadata: { ts, human_ts, iso_ts, sessionIndex, sessionTag } }
  */
 export function timestampEvent (event: Record<string, unknown>): void {
-  if (!event.metadata) {
-    event.metadata = {};
-  }
-
-  const metadata = event.metadata as Record<string, unknown>;
-  metadata.iso_ts = new Date().toISOString();
-  if(verboseEvents) {
-    metadata.ts = Date.now();
-    metadata.human_ts = Date();
-    metadata.sessionIndex = eventIndex++;
-    metadata.sessionTag = sessionStamp;
-    metadata.browserTag = browserStamp();
-  }
+  defaultEventSession.timestampEvent(event);
 }
 
 /**
@@ -235,9 +282,159 @@ export async function mergeMetadata (inputList: MetadataInput[]): Promise<Record
   return masterDict;
 }
 
-export function delay (ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Resolves after `ms`, or as soon as `signal` aborts, so that loops
+ * waiting to retry can be stopped.
+ */
+export function delay (ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Check `predicate` every `interval` ms until it is truthy, for up to
+ * `timeoutMs`. Returns whether it became truthy.
+ */
+export async function waitFor (
+  predicate: () => unknown | Promise<unknown>,
+  timeoutMs: number,
+  interval = 50
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!await predicate()) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await delay(Math.min(interval, deadline - Date.now()));
+  }
+  return true;
+}
+
+/**
+ * Approximate size of a queued item in bytes, as it would be sent.
+ * Loggers queue JSON-encoded strings; lo_event queues objects.
+ */
+export function itemSize (item: unknown): number {
+  return typeof item === 'string' ? item.length : (JSON.stringify(item)?.length ?? 0);
 }
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+/**
+ * The SHA-256 digest of `text` (as UTF-8), in hex. Unlike
+ * `crypto.subtle.digest`, this is synchronous, so we can use it while
+ * logging an event.
+ */
+export function sha256 (text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  // Pad to a multiple of 64 bytes: a 1 bit, zeros, and the length in bits
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Array<number>(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) | 0;
+    });
+  }
+  return hash.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+const IRI = /^[A-Za-z][A-Za-z0-9+.-]*:[^\s]+$/;
+
+/**
+ * Whether `value` is an absolute IRI (`scheme:rest`), as xAPI and
+ * Caliper require of ids.
+ */
+export function isIRI (value: unknown) {
+  return typeof value === 'string' && IRI.test(value);
+}
+
+/**
+ * A random (version 4) UUID, e.g. for Statement and Event ids.
+ */
+export function uuid (): string {
+  return uuidv4();
+}
+
+/**
+ * How long a 429 or 503 response asks us to wait before trying again,
+ * in ms, or `null` if it does not say (or we cannot parse it).
+ * `Retry-After` may be a number of seconds or an HTTP date.
+ */
+export function retryAfter (response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (header === null) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a response with `status` means the endpoint will never take
+ * what we sent (e.g. 400, 413), so sending it again cannot help. Rate
+ * limits (429), timeouts (408), and server errors may pass, and so may
+ * 401, 403, and 404: those are about our credentials or the endpoint,
+ * not what we sent.
+ */
+export function isRejection (status: number): boolean {
+  return status >= 400 && status < 500 && ![401, 403, 404, 408, 429].includes(status);
+}
+
 const MS = 1;
 const SECS = 1000 * MS;
 const MINS = 60 * SECS;
@@ -1,9 +1,11 @@
-import { Queue } from './queue.js';
+import { Queue, QueueType, queueOverflowEvent } from './queue.js';
 import * as disabler from './disabler.js';
 import * as util from './util.js';
 import * as debug from './debugLog.js';
 import { storage } from './browserStorage.js';
-import type { Logger } from './types.js';
+import { lockFieldsState, applyLockEvent, headerSnapshot, snapshotHeader, untagEvent, withHeaders } from './lockFields.js';
+import type { TaggedEvent } from './lockFields.js';
+import type { Logger, QueueLimits } from './types.js';
 
 interface WsHostOverrides {
   hostname?: string;
@@ -24,7 +26,81 @@ function wsHost(overrides: WsHostOverrides = {}, loc = window.location) {
 }
 
 
-export function websocketLogger (server: string | WsHostOverrides = {}): Logger {
+interface Unacknowledged {
+  seq: number;
+  header: string | null | undefined;
+  data: string;
+  sent: boolean;
+}
+
+export interface BatchOptions {
+  maxCount?: number;
+  maxBytes?: number;
+  maxDelay?: number;
+}
+
+export interface WebsocketLoggerOptions {
+  ack?: boolean;
+  maxUnacknowledged?: number;
+  batch?: boolean | BatchOptions;
+  compression?: CompressionFormat | null;
+  queueType?: string;
+  queueLimits?: QueueLimits;
+  coordinate?: boolean;
+}
+
+const BATCH_DEFAULTS: Required<BatchOptions> = {
+  maxCount: 100,
+  maxBytes: 64 * 1024,
+  maxDelay: 250
+};
+
+// How many events we take from our queue at a time
+const DEQUEUE_BATCH_SIZE = 100;
+
+// How many events we send in `ack` mode before waiting for the server
+// to acknowledge some
+const MAX_UNACKNOWLEDGED = 10000;
+
+// Compressed batches go out as binary frames, starting with this
+// header (followed by the compression format and a newline). Servers
+// can check for it to tell batches from ordinary text frames.
+const COMPRESSED_BATCH_MAGIC = 'lo_batch:';
+
+const encoder = new TextEncoder();
+
+async function compress (text: string, format: CompressionFormat) {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream(format));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  const header = encoder.encode(`${COMPRESSED_BATCH_MAGIC}${format}\n`);
+  const frame = new Uint8Array(header.length + compressed.length);
+  frame.set(header);
+  frame.set(compressed, header.length);
+  return frame;
+}
+
+// The end of the run of `events` from `start` logged under the same
+// fields. Untagged events belong to the run they follow.
+function endOfRun (events: TaggedEvent[], start: number) {
+  let end = start + 1;
+  while (end < events.length && (events[end].header ?? events[start].header) === events[start].header) {
+    end++;
+  }
+  return end;
+}
+
+export function websocketLogger (
+  server: string | WsHostOverrides = {},
+  {
+    ack = false,
+    maxUnacknowledged = MAX_UNACKNOWLEDGED,
+    batch = false,
+    compression = null,
+    queueType = QueueType.AUTODETECT,
+    queueLimits = {},
+    coordinate = undefined
+  }: WebsocketLoggerOptions = {}
+): Logger {
   /*
     This is a pretty complex logger, which sends events over a web
     socket.
@@ -39,19 +115,59 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
     etc. and the need to keep robust queues, as well as the need be
     robust about queuing events before we have a socket open or during
     a network failure.
+
+    With `ack`, we guarantee at-least-once delivery. Each event we send
+    carries an increasing `seq`, and we hold on to it until the server
+    replies with `{status: 'ack', upto: n}` for some n >= seq. When we
+    reconnect, we replay everything unacknowledged, in order, before
+    sending anything new. The server should discard frames with a `seq`
+    it has already seen under the connection's resume token (see
+    below): `seq` counts from 0 under each token, and each page load
+    starts with a token of its own. Once `maxUnacknowledged` events are
+    waiting for acknowledgement, we stop taking events from our queue
+    until the server catches up. This is off by default, since servers
+    which never acknowledge would leave us holding every event.
+
+    With `batch`, we group events into a single text frame,
+    `{"event": "batch", "events": [...]}`, sent once we reach
+    `maxCount` events or `maxBytes` bytes, or `maxDelay` ms after the
+    first event in the batch. Adding `compression` ('gzip' or
+    'deflate') sends each batch as a binary frame: the header
+    `lo_batch:<format>\n` followed by the compressed batch. Where
+    `CompressionStream` is unavailable, we send batches uncompressed.
+    Both are off by default, so existing servers keep working.
+
+    Our queue is named after `server` (as given, not as overridden from
+    storage), so loggers for other servers have their own. When it is
+    shared between tabs (IndexedDB), only the leading tab opens a socket
+    and drains the queue; the others just enqueue. If the leader
+    closes, another tab takes over. `coordinate: false` turns this off.
+    Each tab may have fields of its own (e.g. a different student), so
+    each event is queued with the fields it was logged under (see
+    lockFields.ts).
+
+    `stop()` closes the socket and ends our loops; anything not yet
+    sent (or acknowledged) is kept until `init()` starts us again.
+
+    Each connection starts with a `session_header` (see lockFields.ts):
+    the fields locked so far, and a resume token, so the server can
+    tie the connection to earlier ones. The token is ours until the
+    server issues one with `{status: 'session', resume_token}`. We send
+    another header before any event logged under different fields
+    (e.g. one queued before an unlock, or by another tab). Each change
+    is also sent as an event (`lock_fields` and so on), in order with
+    the others, as it always was, so servers which predate the header
+    keep seeing changes. Those which know the header discard changes
+    no newer than it (see lockFields.ts).
+
+    While the server holds our events (a `blocklist` with MAINTAIN; see
+    disabler.ts), we keep queuing them, and the connection open, but
+    send nothing until `{status: 'release'}` (optionally with `purge:
+    true`, to discard them) or the hold expires.
   */
   let socket: WebSocket | null = null;
   // Minimal WebSocket constructor — works with both browser WebSocket and the `ws` package
   let WSLibrary: new (url: string) => WebSocket;
-  const queue = new Queue('websocketLogger');
-  // This holds an exception, if we're blacklisted, between the web
-  // socket and the API. We generate this when we receive a message,
-  // which is not a helpful place to raise the exception from, so we
-  // keep this around until we're called from the client, and then we
-  // raise it there.
-  let blockerror: disabler.BlockError | null = null;
-  let metadata: Record<string, unknown> = {};
-
   // Resolve server to a URL string
   let serverUrl: string;
   if(!server) {
@@ -62,6 +178,48 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
     serverUrl = server;
   }
 
+  const queue = new Queue(`websocketLogger-${serverUrl.replace(/[^A-Za-z0-9]+/g, '_')}`, {
+    queueType,
+    limits: queueLimits,
+    overflowEvent: (info) => JSON.stringify(queueOverflowEvent(info)),
+    coordinate
+  });
+  // This holds an exception, if we're blacklisted, between the web
+  // socket and the API. We generate this when we receive a message,
+  // which is not a helpful place to raise the exception from, so we
+  // keep this around until we're called from the client, and then we
+  // raise it there.
+  let blockerror: disabler.BlockError | null = null;
+  // Our server's release of its hold, while it is applied
+  let releasing: Promise<void> = Promise.resolve();
+  const lockState = lockFieldsState();
+  // What we tag events with, from `lockState`
+  let header: string | null = null;
+  // The header we last sent on this connection
+  let connectionHeader: string | null = null;
+  let resumeToken = util.keystamp('ws');
+  // Events not yet acknowledged by the server, oldest first. In batch
+  // mode, `sent` is false while an event waits in a batch.
+  let unacked: Unacknowledged[] = [];
+  // Scoped to `resumeToken`
+  let nextSeq = 0;
+  // Waiting for the server to acknowledge something (or for us to stop)
+  let ackWaiters: (() => void)[] = [];
+
+  const batchOptions = batch ? { ...BATCH_DEFAULTS, ...(batch === true ? {} : batch) } : null;
+  if (compression && typeof CompressionStream === 'undefined') {
+    debug.info('CompressionStream is not available; sending batches uncompressed');
+    compression = null;
+  }
+  let pendingBatch: TaggedEvent[] = [];
+  // In `ack` mode, the unacknowledged entries for `pendingBatch`
+  let pendingEntries: Unacknowledged[] = [];
+  // As encoded (UTF-8), as it will be sent
+  let pendingBytes = 0;
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+  // Batches are sent one at a time, in order, even while compressing.
+  let sending: Promise<void> = Promise.resolve();
+
   function calculateExponentialBackoff (n: number) {
     return Math.min(1000 * Math.pow(2, n), 1000 * 60 * 15);
   }
@@ -71,18 +229,38 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
   let wsFailureResolve: (() => void) | null = null;
   let wsFailurePromise: Promise<void> | null = null;
   let wsConnectedResolve: ((value: boolean) => void) | null = null;
+  // Waiting for the socket to be ready (or for us to stop)
+  let readyWaiters: (() => void)[] = [];
+  // Aborted by `stop()`, to end our loops
+  let stopController = new AbortController();
+  let connectionLoop: Promise<void> | null = null;
+  let removePurgeListener: (() => void) | null = null;
+
+  function setReady (ready: boolean) {
+    READY = ready;
+    if (ready) {
+      wakeReadyWaiters();
+    }
+  }
+
+  function wakeReadyWaiters () {
+    const waiters = readyWaiters;
+    readyWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
 
   async function startWebsocketConnectionLoop () {
-    while (true) {
+    const signal = stopController.signal;
+    while (!signal.aborted) {
       const connected = await newWebsocket();
       if (!connected) {
         failures++;
-        await util.delay(calculateExponentialBackoff(failures));
+        await util.delay(calculateExponentialBackoff(failures), signal);
       } else {
-        READY = true;
+        setReady(true);
         failures = 0;
         await socketClosed();
-        READY = false;
+        setReady(false);
       }
     }
   }
@@ -109,22 +287,183 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
   }
 
   function prepareSocket () {
-    if(Object.keys(metadata).length > 0) {
-      queue.enqueue(JSON.stringify(metadata));
+    // The header and any replayed frames must precede whatever is
+    // waiting in the queue, so we bypass it.
+    // Events still waiting in a batch go out with it
+    const sent = ack ? unacked.filter(entry => entry.sent) : [];
+    connectionHeader = null;
+    sendHeader(sent[0]?.header ?? header);
+    if (sent.length > 0) {
+      debug.info(`Replaying ${sent.length} unacknowledged events`);
+    }
+    for (const entry of sent) {
+      sendHeader(entry.header);
+      socket!.send(entry.data);
+    }
+  }
+
+  /**
+   * Send a `session_header` with `snapshot`, unless it is what we sent
+   * last on this connection. Untagged events (undefined) go out under
+   * whatever we sent last.
+   */
+  function sendHeader (snapshot: string | null | undefined) {
+    if (snapshot && snapshot !== connectionHeader) {
+      socket!.send(JSON.stringify(snapshotHeader(snapshot, resumeToken)));
+      connectionHeader = snapshot;
     }
   }
 
   async function socketSend (item: unknown) {
-    socket!.send(item as string);
+    let { header, data } = untagEvent(item);
+    let entry: Unacknowledged | null = null;
+    if (ack) {
+      const seq = nextSeq++;
+      data = JSON.stringify({ ...JSON.parse(data), seq });
+      entry = { seq, header, data, sent: !batchOptions };
+      unacked.push(entry);
+    }
+    if (batchOptions) {
+      await addToBatch({ header, data }, entry);
+    } else {
+      sendHeader(header);
+      socket!.send(data);
+    }
+  }
+
+  async function addToBatch (event: TaggedEvent, entry: Unacknowledged | null) {
+    const { data } = event;
+    pendingBatch.push(event);
+    if (entry) {
+      pendingEntries.push(entry);
+    }
+    pendingBytes += encoder.encode(data).length;
+    if (pendingBatch.length >= batchOptions!.maxCount || pendingBytes >= batchOptions!.maxBytes) {
+      await flushBatch();
+    } else if (!batchTimer) {
+      scheduleFlush();
+    }
+  }
+
+  function scheduleFlush () {
+    batchTimer = setTimeout(() => { flushBatch(); }, batchOptions!.maxDelay);
+  }
+
+  function clearBatch () {
+    pendingBatch = [];
+    pendingEntries = [];
+    pendingBytes = 0;
+  }
+
+  function flushBatch () {
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = null;
+    }
+    if (pendingBatch.length === 0) {
+      return sending;
+    }
+    if (!READY || !disabler.streamEvents()) {
+      // Hold on to the batch until we reconnect (or are started again),
+      // or the server releases its hold.
+      if (!stopController.signal.aborted) {
+        scheduleFlush();
+      }
+      return sending;
+    }
+    const events = pendingBatch;
+    const entries = pendingEntries;
+    clearBatch();
+    // Each link catches its own errors, so one failed batch does not
+    // stop those after it.
+    sending = sending.then(async () => {
+      // We send one frame for each run of events under the same fields.
+      let start = 0;
+      try {
+        while (start < events.length) {
+          const end = endOfRun(events, start);
+          const run = events.slice(start, end);
+          // Each item is already JSON, so we can splice them in directly.
+          const frame = `{"event":"batch","events":[${run.map(({ data }) => data).join(',')}]}`;
+          const payload = compression ? await compress(frame, compression) : frame;
+          sendHeader(run[0].header);
+          socket!.send(payload);
+          // In `ack` mode, there is an entry for each event.
+          entries.slice(start, end).forEach(entry => { entry.sent = true; });
+          start = end;
+        }
+      } catch (error) {
+        debug.error('websocketLogger: could not send batch; keeping it to try again', error);
+        const unsent = events.slice(start);
+        pendingBatch = [...unsent, ...pendingBatch];
+        pendingEntries = [...entries.slice(start), ...pendingEntries];
+        pendingBytes += unsent.reduce((bytes, { data }) => bytes + encoder.encode(data).length, 0);
+        if (!batchTimer && !stopController.signal.aborted) {
+          scheduleFlush();
+        }
+      }
+    });
+    return sending;
+  }
+
+  /**
+   * Send a batch of items from our queue. After a long time offline,
+   * the queue may hold thousands of events, and dequeuing them one at
+   * a time is slow.
+   */
+  async function socketSendBatch (items: unknown) {
+    for (const item of items as unknown[]) {
+      if ((!READY && !await waitForWSReady()) || (ack && !await waitForAcknowledgements())) {
+        // We were stopped mid-batch; the rest stays in the queue.
+        throw new Error('websocketLogger: stopped');
+      }
+      await socketSend(item);
+    }
+  }
+
+  function acknowledge (upto: number) {
+    unacked = unacked.filter(({ seq }) => seq > upto);
+    wakeAckWaiters();
   }
 
+  function wakeAckWaiters () {
+    const waiters = ackWaiters;
+    ackWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  /**
+   * Resolves to true once fewer than `maxUnacknowledged` events await
+   * acknowledgement, or to false if we are stopped first.
+   */
+  async function waitForAcknowledgements () {
+    while (unacked.length >= maxUnacknowledged && !stopController.signal.aborted) {
+      await new Promise<void>(resolve => ackWaiters.push(resolve));
+    }
+    return !stopController.signal.aborted;
+  }
+
+  /**
+   * Resolves to true once the socket is ready, or to false if we are
+   * stopped first.
+   */
   async function waitForWSReady () {
-    return await util.backoff(
-      () => (READY),
-      'WebSocket not ready',
-      undefined,
-      util.TERMINATION_POLICY.RETRY
-    );
+    if (!READY && !stopController.signal.aborted) {
+      await new Promise<void>(resolve => readyWaiters.push(resolve));
+    }
+    return READY;
+  }
+
+  /**
+   * Lift the hold our server released, discarding what we hold first
+   * if it asks us to.
+   */
+  async function releaseHold (purge: boolean) {
+    try {
+      await disabler.release({ purge, logger: wsLogData });
+    } catch (e) {
+      debug.error('Could not release the hold on our events', e);
+    }
   }
 
   function receiveMessage (event: MessageEvent) {
@@ -138,6 +477,16 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
           response.action
         );
         break;
+      case 'release':
+        debug.info('Server released its hold on our events');
+        releasing = releaseHold(response.purge === true);
+        break;
+      case 'ack':
+        acknowledge(response.upto);
+        break;
+      case 'session':
+        resumeToken = response.resume_token;
+        break;
       case 'auth': {
         // Server pushes identity after it resolves the WS auth (HTTP Basic via
         // nginx, LTI session, guest cookie, etc.). We stash it in the storage
@@ -170,19 +519,25 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
     }
   }
 
-  function checkForBlockError () {
+  function checkForBlockError (data: string) {
     if (blockerror) {
       console.log('Throwing block error');
       const b = blockerror;
       blockerror = null;
-      socket!.close();
+      if (b.action === disabler.EVENT_ACTION.MAINTAIN) {
+        // We hold on to the event, and stay connected so the server
+        // can release the hold.
+        queue.enqueue({ header, data });
+      } else {
+        socket!.close();
+      }
       throw b;
     }
   }
 
   function wsLogData (data: string) {
-    checkForBlockError();
-    queue.enqueue(data);
+    checkForBlockError(data);
+    queue.enqueue({ header, data });
   }
 
   wsLogData.init = async function () {
@@ -205,21 +560,94 @@ export function websocketLogger (server: string | WsHostOverrides = {}): Logger
       debug.info('Using built-in websocket');
       WSLibrary = WebSocket;
     }
-    startWebsocketConnectionLoop();
+    stopController = new AbortController();
+    const signal = stopController.signal;
+    if (pendingBatch.length > 0) {
+      // Left over from before we were stopped
+      scheduleFlush();
+    }
+    // Only the leading tab connects. This does not block init.
+    queue.leadership().then(() => {
+      if (!signal.aborted) {
+        connectionLoop = startWebsocketConnectionLoop();
+      }
+    });
+    removePurgeListener?.();
+    removePurgeListener = disabler.onPurge(async (logger) => {
+      if (logger && logger !== wsLogData) {
+        return;
+      }
+      clearBatch();
+      unacked = [];
+      await queue.clear();
+    });
     queue.startDequeueLoop({
       initialize: waitForWSReady,
-      shouldDequeue: waitForWSReady,
-      onDequeue: socketSend
+      shouldDequeue: async () => {
+        await releasing;
+        return await disabler.waitUntilReleased() && await waitForWSReady();
+      },
+      onDequeue: socketSendBatch,
+      batchSize: DEQUEUE_BATCH_SIZE
     });
   };
 
+  // Changes apply to events logged from here on, which go out under
+  // a new header. The change itself goes out under the old one.
   wsLogData.setField = function (data: string) {
-    util.mergeDictionary(metadata, JSON.parse(data));
-    queue.enqueue(data);
+    queue.enqueue({ header, data });
+    applyLockEvent(lockState, JSON.parse(data));
+    header = headerSnapshot(lockState);
+  };
+
+  // Hand back anything we have not sent, so it can go out by beacon
+  // when the page unloads, with a header before each change of fields.
+  wsLogData.drain = function () {
+    // Unacknowledged events may or may not have arrived, so we resend
+    // them too.
+    // In `ack` mode, these include anything waiting in a batch.
+    const pending: TaggedEvent[] = ack ? unacked : pendingBatch;
+    unacked = [];
+    clearBatch();
+    return withHeaders([...pending, ...queue.drain()]);
+  };
+
+  wsLogData.flush = async function (timeoutMs: number) {
+    return await util.waitFor(async () => {
+      if (pendingBatch.length > 0 && READY) {
+        await flushBatch();
+      }
+      return pendingBatch.length === 0 && unacked.length === 0 && (await queue.size()) === 0;
+    }, timeoutMs);
+  };
+
+  wsLogData.stop = async function () {
+    stopController.abort();
+    wakeReadyWaiters();
+    wakeAckWaiters();
+    if (batchTimer) {
+      clearTimeout(batchTimer);
+      batchTimer = null;
+    }
+    socket?.close();
+    removePurgeListener?.();
+    removePurgeListener = null;
+    await queue.stop();
+    await connectionLoop;
+    connectionLoop = null;
+  };
+
+  wsLogData.getStatus = async function () {
+    return {
+      connected: READY,
+      queue: await queue.status(),
+      unacknowledged: unacked.length,
+      batched: pendingBatch.length
+    };
   };
 
   function handleSaveBlob (blob: unknown) {
-    queue.enqueue(JSON.stringify({ event: 'save_blob', blob }));
+    queue.enqueue({ header, data: JSON.stringify({ event: 'save_blob', blob }) });
   }
 
   util.consumeCustomEvent('save_blob', handleSaveBlob);
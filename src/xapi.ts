@@ -0,0 +1,455 @@
+/*
+ * Building and validating xAPI 1.0.3 Statements.
+ *
+ * Learning Record Stores reject statements which do not conform to
+ * the specification, so we build them here, rather than leaving it to
+ * each application:
+ *
+ *   buildStatement({
+ *     verb: 'answered',
+ *     object: { id: 'https://example.org/quiz/1/q3', type: 'question', name: 'Question 3' },
+ *     result: { response: '42', success: true }
+ *   }, { fields: lockedFields })
+ *
+ * Short names for verbs, activity types, extensions and attachment
+ * usage types are resolved against the registry vocabularies in
+ * `xapi/` (see xapiVocabulary.ts); full IRIs are passed through. The
+ * actor, unless given, comes from the fields we have locked (or the
+ * user the server told us about): an `actor`, an `email`, or a
+ * `user_id`. We fill in the statement id and timestamp.
+ *
+ * `validateStatement` checks the parts of the specification that LRSs
+ * enforce. It is not a complete conformance test.
+ *
+ * `lo_event.logXAPI` uses both, and logs the result as an
+ * `xapi_statement` event.
+ */
+import * as util from './util.js';
+import { VERBS, ACTIVITY_TYPES, EXTENSIONS, ATTACHMENT_USAGES } from './xapiVocabulary.js';
+
+export type LanguageMap = Record<string, string>;
+
+export interface Account {
+  homePage: string;
+  name: string;
+}
+
+export interface Agent {
+  objectType?: 'Agent' | 'Group';
+  name?: string;
+  mbox?: string;
+  mbox_sha1sum?: string;
+  openid?: string;
+  account?: Account;
+  member?: Agent[];
+}
+
+export interface Verb {
+  id: string;
+  display?: LanguageMap;
+}
+
+export interface ActivityDefinition {
+  type?: string;
+  name?: LanguageMap;
+  description?: LanguageMap;
+  moreInfo?: string;
+  extensions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface Activity {
+  objectType?: 'Activity';
+  id: string;
+  definition?: ActivityDefinition;
+}
+
+export interface StatementRef {
+  objectType: 'StatementRef';
+  id: string;
+}
+
+export interface Result {
+  score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  duration?: string;
+  extensions?: Record<string, unknown>;
+}
+
+export interface Context {
+  registration?: string;
+  instructor?: Agent;
+  team?: Agent;
+  contextActivities?: Partial<Record<'parent' | 'grouping' | 'category' | 'other', Activity[]>>;
+  revision?: string;
+  platform?: string;
+  language?: string;
+  statement?: StatementRef;
+  extensions?: Record<string, unknown>;
+}
+
+export interface Attachment {
+  usageType: string;
+  display: LanguageMap;
+  description?: LanguageMap;
+  contentType: string;
+  length: number;
+  sha2: string;
+  fileUrl?: string;
+}
+
+export interface Statement {
+  id: string;
+  actor: Agent;
+  verb: Verb;
+  object: Activity | Agent | StatementRef;
+  result?: Result;
+  context?: Context;
+  timestamp: string;
+  attachments?: Attachment[];
+}
+
+/**
+ * An activity, in shorthand: `type` may be a short name, and `name`
+ * and `description` plain (English) strings.
+ */
+export interface ActivityShorthand {
+  id: string;
+  type?: string;
+  name?: string | LanguageMap;
+  description?: string | LanguageMap;
+}
+
+export interface StatementParts {
+  verb: string | Verb;
+  object: string | ActivityShorthand | Activity | Agent | StatementRef;
+  actor?: Agent;
+  result?: Result;
+  context?: Context;
+  attachments?: (Omit<Attachment, 'usageType' | 'display'> & { usageType: string; display: string | LanguageMap })[];
+  timestamp?: string | Date;
+  id?: string;
+}
+
+export interface BuildOptions {
+  /** Locked fields (and auth information) to find the actor in */
+  fields?: Record<string, unknown>;
+  /** The `homePage` of accounts built from a `user_id` */
+  accountHomePage?: string;
+}
+
+const DEFAULT_LANGUAGE = 'en-US';
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const ISO_TIMESTAMP = /^\d{4}-\d\d-\d\dT\d\d:\d\d(:\d\d(\.\d+)?)?(Z|[+-]\d\d:?\d\d)$/;
+const ISO_DURATION = /^P(?!$)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?!$)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+const SHA1 = /^[0-9a-f]{40}$/i;
+
+function languageMap (value: string | LanguageMap) {
+  return typeof value === 'string' ? { [DEFAULT_LANGUAGE]: value } : value;
+}
+
+/**
+ * The IRI for `name` in `vocabulary`, or `name` itself if it is
+ * already an IRI. Throws if we do not know it.
+ */
+function resolve (vocabulary: Record<string, string>, kind: string, name: string) {
+  if (util.isIRI(name)) {
+    return name;
+  }
+  const iri = Object.hasOwn(vocabulary, name.toLowerCase()) ? vocabulary[name.toLowerCase()] : undefined;
+  if (!iri) {
+    throw new Error(`Unknown xAPI ${kind}: ${name}`);
+  }
+  return iri;
+}
+
+export function resolveVerb (verb: string | Verb): Verb {
+  if (typeof verb !== 'string') {
+    return verb;
+  }
+  const id = resolve(VERBS, 'verb', verb);
+  // Short names are English display names
+  return util.isIRI(verb) ? { id } : { id, display: { [DEFAULT_LANGUAGE]: verb } };
+}
+
+export function resolveActivityType (type: string) {
+  return resolve(ACTIVITY_TYPES, 'activity type', type);
+}
+
+function resolveExtensions (extensions: Record<string, unknown> | undefined) {
+  if (!extensions) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(extensions).map(
+    ([key, value]) => [resolve(EXTENSIONS, 'extension', key), value]
+  ));
+}
+
+function resolveObject (object: StatementParts['object']): Statement['object'] {
+  if (typeof object === 'string') {
+    return { objectType: 'Activity', id: object };
+  }
+  if ('objectType' in object || 'definition' in object || !('id' in object)) {
+    return object as Statement['object'];
+  }
+  const { id, type, name, description } = object as ActivityShorthand;
+  const definition: ActivityDefinition = {};
+  if (type) definition.type = resolveActivityType(type);
+  if (name) definition.name = languageMap(name);
+  if (description) definition.description = languageMap(description);
+  return Object.keys(definition).length > 0
+    ? { objectType: 'Activity', id, definition }
+    : { objectType: 'Activity', id };
+}
+
+function defaultHomePage () {
+  return typeof location !== 'undefined' ? location.origin : undefined;
+}
+
+/**
+ * Work out who the actor is from our locked fields: an explicit
+ * `actor`, else an `email` (also from `chrome_identity`), else a
+ * `user_id` as an account on `accountHomePage`.
+ */
+export function actorFromFields (
+  fields: Record<string, unknown> = {},
+  accountHomePage = defaultHomePage()
+): Agent | null {
+  if (fields.actor && typeof fields.actor === 'object') {
+    return fields.actor as Agent;
+  }
+  const identity = (fields.chrome_identity ?? {}) as Record<string, unknown>;
+  const email = fields.email ?? identity.email;
+  if (typeof email === 'string' && email) {
+    return { objectType: 'Agent', mbox: `mailto:${email}` };
+  }
+  const userId = fields.user_id ?? fields.safe_user_id;
+  if (userId !== undefined && userId !== null && accountHomePage) {
+    return { objectType: 'Agent', account: { homePage: accountHomePage, name: String(userId) } };
+  }
+  return null;
+}
+
+/**
+ * Build a Statement from `parts`. Throws if a short name is unknown,
+ * or we cannot find an actor.
+ */
+export function buildStatement (parts: StatementParts, { fields = {}, accountHomePage }: BuildOptions = {}): Statement {
+  const actor = parts.actor ?? actorFromFields(fields, accountHomePage ?? defaultHomePage());
+  if (!actor) {
+    throw new Error('No xAPI actor: pass one, or lock an actor, email, or user_id field');
+  }
+  const statement: Statement = {
+    id: parts.id ?? util.uuid(),
+    actor,
+    verb: resolveVerb(parts.verb),
+    object: resolveObject(parts.object),
+    timestamp: parts.timestamp instanceof Date
+      ? parts.timestamp.toISOString()
+      : parts.timestamp ?? new Date().toISOString()
+  };
+  if (parts.result) {
+    statement.result = { ...parts.result };
+    if (parts.result.extensions) {
+      statement.result.extensions = resolveExtensions(parts.result.extensions);
+    }
+  }
+  if (parts.context) {
+    statement.context = { ...parts.context };
+    if (parts.context.extensions) {
+      statement.context.extensions = resolveExtensions(parts.context.extensions);
+    }
+  }
+  if (parts.attachments) {
+    statement.attachments = parts.attachments.map(attachment => ({
+      ...attachment,
+      usageType: resolve(ATTACHMENT_USAGES, 'attachment usage type', attachment.usageType),
+      display: languageMap(attachment.display)
+    }));
+  }
+  return statement;
+}
+
+function checkLanguageMap (map: unknown, path: string, errors: string[]) {
+  if (typeof map !== 'object' || map === null || Array.isArray(map) ||
+      !Object.values(map).every(value => typeof value === 'string')) {
+    errors.push(`${path}: must be a language map`);
+  }
+}
+
+function checkExtensions (extensions: unknown, path: string, errors: string[]) {
+  if (typeof extensions !== 'object' || extensions === null) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  for (const key of Object.keys(extensions)) {
+    if (!util.isIRI(key)) {
+      errors.push(`${path}: key ${key} is not an IRI`);
+    }
+  }
+}
+
+function checkAgent (agent: Agent | undefined, path: string, errors: string[]) {
+  if (typeof agent !== 'object' || agent === null) {
+    errors.push(`${path}: must be an Agent or Group`);
+    return;
+  }
+  const ifis = (['mbox', 'mbox_sha1sum', 'openid', 'account'] as const).filter(ifi => agent[ifi] !== undefined);
+  const isGroup = agent.objectType === 'Group';
+  if (ifis.length > 1 || (ifis.length === 0 && !isGroup)) {
+    errors.push(`${path}: must have exactly one of mbox, mbox_sha1sum, openid, or account`);
+  }
+  if (agent.mbox !== undefined && !/^mailto:[^@\s]+@[^@\s]+$/.test(agent.mbox)) {
+    errors.push(`${path}.mbox: must be a mailto: IRI`);
+  }
+  if (agent.mbox_sha1sum !== undefined && !SHA1.test(agent.mbox_sha1sum)) {
+    errors.push(`${path}.mbox_sha1sum: must be a SHA-1 hex digest`);
+  }
+  if (agent.openid !== undefined && !util.isIRI(agent.openid)) {
+    errors.push(`${path}.openid: must be an IRI`);
+  }
+  if (agent.account !== undefined) {
+    if (!util.isIRI(agent.account.homePage)) {
+      errors.push(`${path}.account.homePage: must be an IRL`);
+    }
+    if (typeof agent.account.name !== 'string' || !agent.account.name) {
+      errors.push(`${path}.account.name: must be a non-empty string`);
+    }
+  }
+  if (isGroup && agent.member !== undefined) {
+    agent.member.forEach((member, i) => checkAgent(member, `${path}.member[${i}]`, errors));
+  } else if (isGroup && ifis.length === 0) {
+    errors.push(`${path}: anonymous groups must list their members`);
+  }
+}
+
+function checkActivity (activity: Activity, path: string, errors: string[]) {
+  if (!util.isIRI(activity.id)) {
+    errors.push(`${path}.id: must be an IRI`);
+  }
+  const definition = activity.definition;
+  if (definition === undefined) {
+    return;
+  }
+  if (definition.type !== undefined && !util.isIRI(definition.type)) {
+    errors.push(`${path}.definition.type: must be an IRI`);
+  }
+  if (definition.name !== undefined) checkLanguageMap(definition.name, `${path}.definition.name`, errors);
+  if (definition.description !== undefined) checkLanguageMap(definition.description, `${path}.definition.description`, errors);
+  if (definition.extensions !== undefined) checkExtensions(definition.extensions, `${path}.definition.extensions`, errors);
+}
+
+function checkObject (object: Statement['object'], errors: string[]) {
+  if (typeof object !== 'object' || object === null) {
+    errors.push('object: is required');
+    return;
+  }
+  switch (object.objectType ?? 'Activity') {
+    case 'Activity':
+      checkActivity(object as Activity, 'object', errors);
+      break;
+    case 'Agent':
+    case 'Group':
+      checkAgent(object as Agent, 'object', errors);
+      break;
+    case 'StatementRef':
+      if (!UUID.test((object as StatementRef).id)) {
+        errors.push('object.id: must be a UUID');
+      }
+      break;
+    default:
+      errors.push(`object.objectType: unsupported ${object.objectType}`);
+  }
+}
+
+function checkResult (result: Result, errors: string[]) {
+  const score = result.score;
+  if (score !== undefined) {
+    if (score.scaled !== undefined && (typeof score.scaled !== 'number' || score.scaled < -1 || score.scaled > 1)) {
+      errors.push('result.score.scaled: must be between -1 and 1');
+    }
+    if (score.min !== undefined && score.max !== undefined && score.min > score.max) {
+      errors.push('result.score: min must not exceed max');
+    }
+    if (score.raw !== undefined && ((score.min !== undefined && score.raw < score.min) ||
+        (score.max !== undefined && score.raw > score.max))) {
+      errors.push('result.score.raw: must be between min and max');
+    }
+  }
+  for (const key of ['success', 'completion'] as const) {
+    if (result[key] !== undefined && typeof result[key] !== 'boolean') {
+      errors.push(`result.${key}: must be a boolean`);
+    }
+  }
+  if (result.response !== undefined && typeof result.response !== 'string') {
+    errors.push('result.response: must be a string');
+  }
+  if (result.duration !== undefined && !ISO_DURATION.test(result.duration)) {
+    errors.push('result.duration: must be an ISO 8601 duration');
+  }
+  if (result.extensions !== undefined) checkExtensions(result.extensions, 'result.extensions', errors);
+}
+
+function checkContext (context: Context, object: Statement['object'], errors: string[]) {
+  if (context.registration !== undefined && !UUID.test(context.registration)) {
+    errors.push('context.registration: must be a UUID');
+  }
+  if (context.instructor !== undefined) checkAgent(context.instructor, 'context.instructor', errors);
+  if (context.team !== undefined) {
+    if (context.team.objectType !== 'Group') {
+      errors.push('context.team: must be a Group');
+    }
+    checkAgent(context.team, 'context.team', errors);
+  }
+  for (const [key, activities] of Object.entries(context.contextActivities ?? {})) {
+    if (!['parent', 'grouping', 'category', 'other'].includes(key)) {
+      errors.push(`context.contextActivities: unknown key ${key}`);
+    }
+    (Array.isArray(activities) ? activities : [activities]).forEach(
+      (activity, i) => checkActivity(activity, `context.contextActivities.${key}[${i}]`, errors)
+    );
+  }
+  // Only activities have revisions and platforms
+  const isActivity = (object.objectType ?? 'Activity') === 'Activity';
+  if (!isActivity && (context.revision !== undefined || context.platform !== undefined)) {
+    errors.push('context: revision and platform are only allowed for activities');
+  }
+  if (context.statement !== undefined && !UUID.test(context.statement.id)) {
+    errors.push('context.statement.id: must be a UUID');
+  }
+  if (context.extensions !== undefined) checkExtensions(context.extensions, 'context.extensions', errors);
+}
+
+/**
+ * Check `statement` against xAPI 1.0.3. Returns a list of problems,
+ * each prefixed with where they are; empty if the statement is valid.
+ */
+export function validateStatement (statement: Statement): string[] {
+  const errors: string[] = [];
+  if (statement.id !== undefined && !UUID.test(statement.id)) {
+    errors.push('id: must be a UUID');
+  }
+  checkAgent(statement.actor, 'actor', errors);
+  if (!statement.verb || !util.isIRI(statement.verb.id)) {
+    errors.push('verb.id: must be an IRI');
+  } else if (statement.verb.display !== undefined) {
+    checkLanguageMap(statement.verb.display, 'verb.display', errors);
+  }
+  checkObject(statement.object, errors);
+  if (statement.result !== undefined) checkResult(statement.result, errors);
+  if (statement.context !== undefined) checkContext(statement.context, statement.object, errors);
+  if (statement.timestamp !== undefined && !ISO_TIMESTAMP.test(statement.timestamp)) {
+    errors.push('timestamp: must be an ISO 8601 timestamp');
+  }
+  (statement.attachments ?? []).forEach((attachment, i) => {
+    const path = `attachments[${i}]`;
+    if (!util.isIRI(attachment.usageType)) errors.push(`${path}.usageType: must be an IRI`);
+    checkLanguageMap(attachment.display, `${path}.display`, errors);
+    if (typeof attachment.contentType !== 'string') errors.push(`${path}.contentType: is required`);
+    if (!Number.isInteger(attachment.length)) errors.push(`${path}.length: must be an integer`);
+    if (typeof attachment.sha2 !== 'string') errors.push(`${path}.sha2: is required`);
+  });
+  return errors;
+}
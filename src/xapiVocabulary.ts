@@ -0,0 +1,366 @@
+// Generated from xapi/*.json by xapi/build_vocabulary.js. Do not edit.
+
+// Verb IRIs, by English display name (e.g. "answered")
+export const VERBS: Record<string, string> = {
+  "accepted": "http://activitystrea.ms/schema/1.0/accept",
+  "accessed": "http://activitystrea.ms/schema/1.0/access",
+  "acknowledged": "http://activitystrea.ms/schema/1.0/acknowledge",
+  "added": "http://activitystrea.ms/schema/1.0/add",
+  "adjourned": "http://id.tincanapi.com/verb/adjourned",
+  "agreed": "http://activitystrea.ms/schema/1.0/agree",
+  "annotated": "http://risc-inc.com/annotator/verbs/annotated",
+  "answered": "http://adlnet.gov/expapi/verbs/answered",
+  "appended": "http://activitystrea.ms/schema/1.0/append",
+  "applauded": "http://id.tincanapi.com/verb/applauded",
+  "approved": "http://activitystrea.ms/schema/1.0/approve",
+  "archived": "http://activitystrea.ms/schema/1.0/archive",
+  "arranged": "http://id.tincanapi.com/verb/arranged",
+  "asked": "http://adlnet.gov/expapi/verbs/asked",
+  "assigned": "http://activitystrea.ms/schema/1.0/assign",
+  "attached": "http://activitystrea.ms/schema/1.0/attach",
+  "attempted": "http://adlnet.gov/expapi/verbs/attempted",
+  "attended": "http://adlnet.gov/expapi/verbs/attended",
+  "authored": "http://activitystrea.ms/schema/1.0/author",
+  "authorized": "http://activitystrea.ms/schema/1.0/authorize",
+  "bookmarked": "http://id.tincanapi.com/verb/bookmarked",
+  "borrowed": "http://activitystrea.ms/schema/1.0/borrow",
+  "built": "http://activitystrea.ms/schema/1.0/build",
+  "called": "http://id.tincanapi.com/verb/called",
+  "canceled": "http://activitystrea.ms/schema/1.0/cancel",
+  "cancelled planned learning": "http://www.tincanapi.co.uk/pages/verbs.html#cancelled_planned_learning",
+  "checked in": "http://activitystrea.ms/schema/1.0/checkin",
+  "closed": "http://activitystrea.ms/schema/1.0/close",
+  "closed sale": "http://id.tincanapi.com/verb/closed-sale",
+  "commented": "http://adlnet.gov/expapi/verbs/commented",
+  "completed": "http://adlnet.gov/expapi/verbs/completed",
+  "confirmed": "http://activitystrea.ms/schema/1.0/confirm",
+  "consumed": "http://activitystrea.ms/schema/1.0/consume",
+  "created": "http://activitystrea.ms/schema/1.0/create",
+  "created opportunity": "http://id.tincanapi.com/verb/created-opportunity",
+  "defined": "http://id.tincanapi.com/verb/defined",
+  "deleted": "http://activitystrea.ms/schema/1.0/delete",
+  "delivered": "http://activitystrea.ms/schema/1.0/deliver",
+  "denied": "http://activitystrea.ms/schema/1.0/deny",
+  "disabled": "http://id.tincanapi.com/verb/disabled",
+  "disagreed": "http://activitystrea.ms/schema/1.0/disagree",
+  "discarded": "http://id.tincanapi.com/verb/discarded",
+  "disliked": "http://activitystrea.ms/schema/1.0/dislike",
+  "down voted": "http://id.tincanapi.com/verb/voted-down",
+  "downloaded": "http://id.tincanapi.com/verb/downloaded",
+  "drew": "http://www.digital-knowledge.co.jp/tincanapi/verbs/drew",
+  "earned": "http://id.tincanapi.com/verb/earned",
+  "earned an open badge": "http://specification.openbadges.org/xapi/verbs/earned",
+  "edited": "http://curatr3.com/define/verb/edited",
+  "enabled": "http://id.tincanapi.com/verb/enabled",
+  "enrolled onto learning plan": "http://www.tincanapi.co.uk/verbs/enrolled_onto_learning_plan",
+  "entered frame": "http://id.tincanapi.com/verb/frame/entered",
+  "estimated the duration": "http://id.tincanapi.com/verb/estimated-duration",
+  "evaluated": "http://www.tincanapi.co.uk/verbs/evaluated",
+  "exited": "http://adlnet.gov/expapi/verbs/exited",
+  "exited frame": "http://id.tincanapi.com/verb/frame/exited",
+  "expected": "http://id.tincanapi.com/verb/expected",
+  "experienced": "http://adlnet.gov/expapi/verbs/experienced",
+  "expired": "http://id.tincanapi.com/verb/expired",
+  "failed": "http://adlnet.gov/expapi/verbs/failed",
+  "favorited": "http://activitystrea.ms/schema/1.0/favorite",
+  "flagged as inappropriate": "http://activitystrea.ms/schema/1.0/flag-as-inappropriate",
+  "focused": "http://id.tincanapi.com/verb/focused",
+  "followed": "http://activitystrea.ms/schema/1.0/follow",
+  "found": "http://activitystrea.ms/schema/1.0/find",
+  "gave": "http://activitystrea.ms/schema/1.0/give",
+  "hired": "http://id.tincanapi.com/verb/hired",
+  "hosted": "http://activitystrea.ms/schema/1.0/host",
+  "ignored": "http://activitystrea.ms/schema/1.0/ignore",
+  "imported": "http://adlnet.gov/expapi/verbs/imported",
+  "initialized": "http://adlnet.gov/expapi/verbs/initialized",
+  "inserted": "http://activitystrea.ms/schema/1.0/insert",
+  "installed": "http://activitystrea.ms/schema/1.0/install",
+  "interacted": "http://adlnet.gov/expapi/verbs/interacted",
+  "interviewed": "http://id.tincanapi.com/verb/interviewed",
+  "invited": "http://activitystrea.ms/schema/1.0/invite",
+  "joined": "http://activitystrea.ms/schema/1.0/join",
+  "laughed": "http://id.tincanapi.com/verb/laughed",
+  "launched": "http://adlnet.gov/expapi/verbs/launched",
+  "left": "http://activitystrea.ms/schema/1.0/leave",
+  "liked": "http://activitystrea.ms/schema/1.0/like",
+  "listened": "http://activitystrea.ms/schema/1.0/listen",
+  "log in": "https://brindlewaye.com/xAPITerms/verbs/loggedin/",
+  "log out": "https://brindlewaye.com/xAPITerms/verbs/loggedout/",
+  "lost": "http://activitystrea.ms/schema/1.0/lose",
+  "made friend": "http://activitystrea.ms/schema/1.0/make-friend",
+  "mastered": "http://adlnet.gov/expapi/verbs/mastered",
+  "mentioned": "http://id.tincanapi.com/verb/mentioned",
+  "mentored": "http://id.tincanapi.com/verb/mentored",
+  "modified annotation": "http://risc-inc.com/annotator/verbs/modified",
+  "opened": "http://activitystrea.ms/schema/1.0/open",
+  "passed": "http://adlnet.gov/expapi/verbs/passed",
+  "paused": "http://id.tincanapi.com/verb/paused",
+  "performed": "http://id.tincanapi.com/verb/performed-offline",
+  "personalized": "http://id.tincanapi.com/verb/personalized",
+  "planned": "http://www.tincanapi.co.uk/pages/verbs.html#planned_learning",
+  "played": "http://activitystrea.ms/schema/1.0/play",
+  "preferred": "http://adlnet.gov/expapi/verbs/preferred",
+  "presented": "http://activitystrea.ms/schema/1.0/present",
+  "pressed": "http://future-learning.info/xAPI/verb/pressed",
+  "previewed": "http://id.tincanapi.com/verb/previewed",
+  "progressed": "http://adlnet.gov/expapi/verbs/progressed",
+  "promoted": "http://id.tincanapi.com/verb/promoted",
+  "purchased": "http://activitystrea.ms/schema/1.0/purchase",
+  "qualified": "http://activitystrea.ms/schema/1.0/qualify",
+  "ran": "https://brindlewaye.com/xAPITerms/verbs/ran/",
+  "rated": "http://id.tincanapi.com/verb/rated",
+  "read": "http://activitystrea.ms/schema/1.0/read",
+  "received": "http://activitystrea.ms/schema/1.0/receive",
+  "registered": "http://adlnet.gov/expapi/verbs/registered",
+  "rejected": "http://activitystrea.ms/schema/1.0/reject",
+  "released": "http://future-learning.info/xAPI/verb/released",
+  "removed": "http://activitystrea.ms/schema/1.0/remove",
+  "removed friend": "http://activitystrea.ms/schema/1.0/remove-friend",
+  "replaced": "http://activitystrea.ms/schema/1.0/replace",
+  "replied": "http://id.tincanapi.com/verb/replied",
+  "replied to tweet": "http://id.tincanapi.com/verb/replied-to-tweet",
+  "requested": "http://activitystrea.ms/schema/1.0/request",
+  "requested attention": "http://id.tincanapi.com/verb/requested-attention",
+  "requested friend": "http://activitystrea.ms/schema/1.0/request-friend",
+  "resolved": "http://activitystrea.ms/schema/1.0/resolve",
+  "responded": "http://adlnet.gov/expapi/verbs/responded",
+  "resumed": "http://adlnet.gov/expapi/verbs/resumed",
+  "retracted": "http://activitystrea.ms/schema/1.0/retract",
+  "returned": "http://activitystrea.ms/schema/1.0/return",
+  "retweeted": "http://id.tincanapi.com/verb/retweeted",
+  "reviewed": "http://id.tincanapi.com/verb/reviewed",
+  "rsvped maybe": "http://activitystrea.ms/schema/1.0/rsvp-maybe",
+  "rsvped no": "http://activitystrea.ms/schema/1.0/rsvp-no",
+  "rsvped yes": "http://activitystrea.ms/schema/1.0/rsvp-yes",
+  "satisfied": "http://activitystrea.ms/schema/1.0/satisfy",
+  "saved": "http://activitystrea.ms/schema/1.0/save",
+  "scheduled": "http://activitystrea.ms/schema/1.0/schedule",
+  "scored": "http://adlnet.gov/expapi/verbs/scored",
+  "searched": "http://activitystrea.ms/schema/1.0/search",
+  "secured": "http://id.tincanapi.com/verb/secured",
+  "selected": "http://id.tincanapi.com/verb/selected",
+  "sent": "http://activitystrea.ms/schema/1.0/send",
+  "shared": "http://adlnet.gov/expapi/verbs/shared",
+  "skipped": "http://id.tincanapi.com/verb/skipped",
+  "sold": "http://activitystrea.ms/schema/1.0/sell",
+  "sponsored": "http://activitystrea.ms/schema/1.0/sponsor",
+  "started": "http://activitystrea.ms/schema/1.0/start",
+  "stopped following": "http://activitystrea.ms/schema/1.0/stop-following",
+  "submitted": "http://activitystrea.ms/schema/1.0/submit",
+  "suspended": "http://adlnet.gov/expapi/verbs/suspended",
+  "tagged": "http://activitystrea.ms/schema/1.0/tag",
+  "talked": "http://id.tincanapi.com/verb/talked-with",
+  "terminated": "http://adlnet.gov/expapi/verbs/terminated",
+  "terminated employment with": "http://id.tincanapi.com/verb/terminated-employment-with",
+  "tied": "http://activitystrea.ms/schema/1.0/tie",
+  "tweeted": "http://id.tincanapi.com/verb/tweeted",
+  "unfavorited": "http://activitystrea.ms/schema/1.0/unfavorite",
+  "unfocused": "http://id.tincanapi.com/verb/unfocused",
+  "unliked": "http://activitystrea.ms/schema/1.0/unlike",
+  "unread": "http://id.tincanapi.com/verb/marked-unread",
+  "unregistered": "http://id.tincanapi.com/verb/unregistered",
+  "unsatisfied": "http://activitystrea.ms/schema/1.0/unsatisfy",
+  "unsaved": "http://activitystrea.ms/schema/1.0/unsave",
+  "unshared": "http://activitystrea.ms/schema/1.0/unshare",
+  "up voted": "http://id.tincanapi.com/verb/voted-up",
+  "updated": "http://activitystrea.ms/schema/1.0/update",
+  "used": "http://activitystrea.ms/schema/1.0/use",
+  "viewed": "http://id.tincanapi.com/verb/viewed",
+  "voided": "http://adlnet.gov/expapi/verbs/voided",
+  "voted down (with reason)": "http://curatr3.com/define/verb/voted-down",
+  "voted up (with reason)": "http://curatr3.com/define/verb/voted-up",
+  "walked": "https://brindlewaye.com/xAPITerms/verbs/walked/",
+  "was assigned job title": "http://id.tincanapi.com/verb/was-assigned-job-title",
+  "was at": "http://activitystrea.ms/schema/1.0/at",
+  "was hired by": "http://id.tincanapi.com/verb/was-hired-by",
+  "watched": "http://activitystrea.ms/schema/1.0/watch",
+  "won": "http://activitystrea.ms/schema/1.0/win",
+};
+
+// Activity type IRIs, by English display name (e.g. "assessment")
+export const ACTIVITY_TYPES: Record<string, string> = {
+  "alert": "http://activitystrea.ms/schema/1.0/alert",
+  "application": "http://activitystrea.ms/schema/1.0/application",
+  "article": "http://activitystrea.ms/schema/1.0/article",
+  "assessment": "http://adlnet.gov/expapi/activities/assessment",
+  "audio": "http://activitystrea.ms/schema/1.0/audio",
+  "badge": "http://activitystrea.ms/schema/1.0/badge",
+  "binary": "http://activitystrea.ms/schema/1.0/binary",
+  "blog": "http://id.tincanapi.com/activitytype/blog",
+  "book": "http://id.tincanapi.com/activitytype/book",
+  "bookmark ": "http://activitystrea.ms/schema/1.0/bookmark",
+  "category": "http://id.tincanapi.com/activitytype/category",
+  "certificate": "https://www.opigno.org/en/tincan_registry/activity_type/certificate",
+  "changed diaper": "http://id.tincanapi.com/activitytype/diaper-changed",
+  "chapter": "http://id.tincanapi.com/activitytype/chapter",
+  "chat channel": "http://id.tincanapi.com/activitytype/chat-channel",
+  "chat message": "http://id.tincanapi.com/activitytype/chat-message",
+  "checklist": "http://id.tincanapi.com/activitytype/checklist",
+  "checklist item": "http://id.tincanapi.com/activitytype/checklist-item",
+  "cmi.interactions": "http://adlnet.gov/expapi/activities/cmi.interaction",
+  "code commit": "http://id.tincanapi.com/activitytype/code-commit",
+  "collection": "http://activitystrea.ms/schema/1.0/collection",
+  "comment": "http://activitystrea.ms/schema/1.0/comment",
+  "community site": "http://id.tincanapi.com/activitytype/community-site",
+  "conference": "http://id.tincanapi.com/activitytype/conference",
+  "conference session": "http://id.tincanapi.com/activitytype/conference-session",
+  "conference track": "http://id.tincanapi.com/activitytype/conference-track",
+  "course": "http://adlnet.gov/expapi/activities/course",
+  "curatr organisation": "http://curatr3.com/define/type/organisation",
+  "device ": "http://activitystrea.ms/schema/1.0/device",
+  "discussion": "http://id.tincanapi.com/activitytype/discussion",
+  "document": "http://id.tincanapi.com/activitytype/document",
+  "doubt": "http://id.tincanapi.com/activitytype/doubt",
+  "email": "http://id.tincanapi.com/activitytype/email",
+  "embedded strategy": "http://id.tincanapi.com/activitytype/strategy-embedded",
+  "essay": "http://id.tincanapi.com/activitytype/essay",
+  "event": "http://activitystrea.ms/schema/1.0/event",
+  "file": "http://activitystrea.ms/schema/1.0/file",
+  "forum reply": "http://id.tincanapi.com/activitytype/forum-reply",
+  "forum topic": "http://id.tincanapi.com/activitytype/forum-topic",
+  "freetext annotation": "http://www.risc-inc.com/annotator/activities/freetext",
+  "game": "http://activitystrea.ms/schema/1.0/game",
+  "game level": "http://curatr3.com/define/type/level",
+  "goal": "http://id.tincanapi.com/activitytype/goal",
+  "grade classification": "http://www.tincanapi.co.uk/activitytypes/grade_classification",
+  "group": "http://activitystrea.ms/schema/1.0/group",
+  "highlighted text annotation": "http://risc-inc.com/annotator/activities/highlight",
+  "image": "http://activitystrea.ms/schema/1.0/image",
+  "interaction": "http://adlnet.gov/expapi/activities/interaction",
+  "issue": "http://activitystrea.ms/schema/1.0/issue",
+  "job": "http://activitystrea.ms/schema/1.0/job",
+  "job title": "http://id.tincanapi.com/activitytype/job-title",
+  "legacy learning standard": "http://id.tincanapi.com/activitytype/legacy-learning-standard",
+  "link": "http://adlnet.gov/expapi/activities/link",
+  "lms": "http://id.tincanapi.com/activitytype/lms",
+  "media": "http://adlnet.gov/expapi/activities/media",
+  "meeting": "http://adlnet.gov/expapi/activities/meeting",
+  "module": "http://adlnet.gov/expapi/activities/module",
+  "note ": "http://activitystrea.ms/schema/1.0/note",
+  "note annotation": "http://risc-inc.com/annotator/activities/note",
+  "objective": "http://adlnet.gov/expapi/activities/objective",
+  "offer": "http://activitystrea.ms/schema/1.0/offer",
+  "on demand lab": "http://id.tincanapi.com/activitytype/lab-on-demand",
+  "organization": "http://id.tincanapi.com/activitytype/organization",
+  "organization ": "http://activitystrea.ms/schema/1.0/organization",
+  "page": "http://activitystrea.ms/schema/1.0/page",
+  "paragraph": "http://id.tincanapi.com/activitytype/paragraph",
+  "performance": "http://adlnet.gov/expapi/activities/performance",
+  "person": "http://activitystrea.ms/schema/1.0/person",
+  "place ": "http://activitystrea.ms/schema/1.0/place",
+  "playlist": "http://id.tincanapi.com/activitytype/playlist",
+  "process ": "http://activitystrea.ms/schema/1.0/process",
+  "product": "http://activitystrea.ms/schema/1.0/product",
+  "project": "http://id.tincanapi.com/activitytype/project",
+  "question": "http://adlnet.gov/expapi/activities/question",
+  "recipe": "http://id.tincanapi.com/activitytype/recipe",
+  "remote lab experiment": "http://id.tincanapi.com/activitytype/remote-lab-experiment",
+  "research report": "http://id.tincanapi.com/activitytype/research-report",
+  "resource": "http://id.tincanapi.com/activitytype/resource",
+  "review": "http://activitystrea.ms/schema/1.0/review",
+  "reward": "http://id.tincanapi.com/activitytype/reward",
+  "sales opportunity": "http://id.tincanapi.com/activitytype/sales-opportunity",
+  "scenario": "http://id.tincanapi.com/activitytype/scenario",
+  "school assignment": "http://id.tincanapi.com/activitytype/school-assignment",
+  "section": "http://id.tincanapi.com/activitytype/section",
+  "security role": "http://id.tincanapi.com/activitytype/security-role",
+  "service": "http://activitystrea.ms/schema/1.0/service",
+  "simple collection": "http://id.tincanapi.com/activitytype/collection-simple",
+  "simulation": "http://adlnet.gov/expapi/activities/simulation",
+  "slide": "http://id.tincanapi.com/activitytype/slide",
+  "slide deck": "http://id.tincanapi.com/activitytype/slide-deck",
+  "solution": "http://id.tincanapi.com/activitytype/solution",
+  "source": "http://id.tincanapi.com/activitytype/source",
+  "status update": "http://id.tincanapi.com/activitytype/status-update",
+  "step": "http://id.tincanapi.com/activitytype/step",
+  "strategy": "http://id.tincanapi.com/activitytype/strategy",
+  "subcategory": "http://id.tincanapi.com/activitytype/subcategory",
+  "suggestion": "http://id.tincanapi.com/activitytype/suggestion",
+  "survey": "http://id.tincanapi.com/activitytype/survey",
+  "tag": "http://id.tincanapi.com/activitytype/tag",
+  "task": "http://activitystrea.ms/schema/1.0/task",
+  "test data batch": "http://id.tincanapi.com/activitytype/test-data-batch",
+  "tutor session": "http://id.tincanapi.com/activitytype/tutor-session",
+  "tweet": "http://id.tincanapi.com/activitytype/tweet",
+  "underline annotation": "http://risc-inc.com/annotator/activities/underline",
+  "unit test": "http://id.tincanapi.com/activitytype/unit-test",
+  "unit test suite": "http://id.tincanapi.com/activitytype/unit-test-suite",
+  "user profile": "http://id.tincanapi.com/activitytype/user-profile",
+  "video": "http://activitystrea.ms/schema/1.0/video",
+  "vocabulary word": "http://id.tincanapi.com/activitytype/vocabulary-word",
+  "voicemail": "http://id.tincanapi.com/activitytype/voicemail",
+  "webinar": "http://id.tincanapi.com/activitytype/webinar",
+};
+
+// Extension IRIs, by the last segment of the IRI (e.g. "apm")
+export const EXTENSIONS: Record<string, string> = {
+  "apm": "http://id.tincanapi.com/extension/apm",
+  "assessment-type": "http://id.tincanapi.com/extension/assessment-type",
+  "attempt-id": "http://id.tincanapi.com/extension/attempt-id",
+  "badgeassertion": "http://specification.openbadges.org/xapi/extensions/badgeassertion",
+  "badgeclass": "http://specification.openbadges.org/xapi/extensions/badgeclass",
+  "browser-info": "http://id.tincanapi.com/extension/browser-info",
+  "classification": "http://www.tincanapi.co.uk/extensions/result/classification",
+  "cmi-interaction-weighting": "http://id.tincanapi.com/extension/cmi-interaction-weighting",
+  "collection-type": "http://id.tincanapi.com/extension/collection-type",
+  "color": "http://id.tincanapi.com/extension/color",
+  "condition-type": "http://id.tincanapi.com/extension/condition-type",
+  "condition-value": "http://id.tincanapi.com/extension/condition-value",
+  "data-uri": "http://id.tincanapi.com/extension/data-uri",
+  "date": "http://id.tincanapi.com/extension/date",
+  "datetime": "http://id.tincanapi.com/extension/datetime",
+  "drop-down": "http://id.tincanapi.com/extension/drop-down",
+  "duration": "http://id.tincanapi.com/extension/duration",
+  "ending-point": "http://id.tincanapi.com/extension/ending-point",
+  "ending-position": "http://id.tincanapi.com/extension/ending-position",
+  "feedback": "http://id.tincanapi.com/extension/feedback",
+  "geojson": "http://id.tincanapi.com/extension/geojson",
+  "highlightedstring": "http://www.risc-inc.com/annotator/extensions/highlightedString",
+  "host": "https://xapi.gowithfloat.net/extension/host",
+  "invitee": "http://id.tincanapi.com/extension/invitee",
+  "ip-address": "http://id.tincanapi.com/extension/ip-address",
+  "irl": "http://id.tincanapi.com/extension/irl",
+  "isbn": "http://id.tincanapi.com/extension/isbn",
+  "jws-certificate-location": "http://id.tincanapi.com/extension/jws-certificate-location",
+  "latitude": "http://id.tincanapi.com/extension/latitude",
+  "location": "http://id.tincanapi.com/extension/location",
+  "longitude": "http://id.tincanapi.com/extension/longitude",
+  "measurement": "http://id.tincanapi.com/extension/measurement",
+  "monetary-value": "http://id.tincanapi.com/extension/monetary-value",
+  "observer": "http://id.tincanapi.com/extension/observer",
+  "page": "http://www.risc-inc.com/annotator/extensions/page",
+  "planned-duration": "http://id.tincanapi.com/extension/planned-duration",
+  "planned-start-time": "http://id.tincanapi.com/extension/planned-start-time",
+  "position": "http://id.tincanapi.com/extension/position",
+  "powered-by": "http://id.tincanapi.com/extension/powered-by",
+  "private-area": "http://id.tincanapi.com/extension/private-area",
+  "published": "http://id.tincanapi.com/extension/published",
+  "purpose": "http://id.tincanapi.com/extension/purpose",
+  "quality-rating": "http://id.tincanapi.com/extension/quality-rating",
+  "rects": "http://www.risc-inc.com/annotator/extensions/rects",
+  "referrer": "http://id.tincanapi.com/extension/referrer",
+  "reflection": "http://id.tincanapi.com/extension/reflection",
+  "severity": "http://id.tincanapi.com/extension/severity",
+  "share-medium": "http://id.tincanapi.com/extension/share-medium",
+  "starting-point": "http://id.tincanapi.com/extension/starting-point",
+  "starting-position": "http://id.tincanapi.com/extension/starting-position",
+  "tags": "http://id.tincanapi.com/extension/tags",
+  "target": "http://id.tincanapi.com/extension/target",
+  "tetris-lines": "http://id.tincanapi.com/extension/tetris-lines",
+  "time": "http://id.tincanapi.com/extension/time",
+  "topic": "http://id.tincanapi.com/extension/topic",
+  "training-provider": "http://id.tincanapi.com/extension/training-provider",
+  "tweet": "http://id.tincanapi.com/extension/tweet",
+  "updated": "http://id.tincanapi.com/extension/updated",
+  "valid-until": "http://id.tincanapi.com/extension/valid-until",
+  "watershedlrs-organization-id": "http://id.tincanapi.com/extension/watershedlrs-organization-id",
+};
+
+// Attachment usage type IRIs, by the last segment of the IRI (e.g. "signature")
+export const ATTACHMENT_USAGES: Record<string, string> = {
+  "badge": "http://specification.openbadges.org/xapi/attachment/badge",
+  "certificate-of-completion": "http://id.tincanapi.com/attachment/certificate-of-completion",
+  "contract": "http://id.tincanapi.com/attachment/contract",
+  "signature": "http://adlnet.gov/expapi/attachments/signature",
+  "supporting_media": "http://id.tincanapi.com/attachment/supporting_media",
+};
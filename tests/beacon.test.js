@@ -0,0 +1,107 @@
+/*
+ * Test of last-chance delivery by beacon.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as beacon from '../src/beacon.js';
+import * as loEvent from '../src/loEvent.js';
+import * as disabler from '../src/disabler.js';
+import { websocketLogger } from '../src/websocketLogger.js';
+import { QueueType } from '../src/queue.js';
+
+function stubBeacon () {
+  const beacons = [];
+  vi.stubGlobal('navigator', {
+    sendBeacon: (endpoint, body) => {
+      beacons.push({ endpoint, lines: body.trim().split('\n').map(line => JSON.parse(line)) });
+      return true;
+    }
+  });
+  return beacons;
+}
+
+function drainingLogger (pending) {
+  const logger = () => {};
+  logger.drain = () => pending.splice(0);
+  return logger;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('beacon', () => {
+  it('splits large backlogs, with the header in each beacon', () => {
+    const beacons = stubBeacon();
+    const events = Array.from({ length: 20 }, (_, i) => JSON.stringify({ event: 'test', i, padding: 'x'.repeat(4000) }));
+    expect(beacon.sendBeacon('/beacon', JSON.stringify({ event: 'session_header' }), events)).toBe(true);
+    expect(beacons.length).toBe(2);
+    for (const { lines } of beacons) {
+      expect(lines[0].event).toBe('session_header');
+    }
+    expect(beacons.flatMap(({ lines }) => lines.slice(1)).map(e => e.i)).toEqual(events.map((_, i) => i));
+  });
+
+  it('flushes on pagehide, but not when the tab is merely hidden', () => {
+    vi.stubGlobal('window', new EventTarget());
+    let calls = 0;
+    const remove = beacon.onPageHide(() => { calls++; });
+    window.dispatchEvent(new Event('visibilitychange'));
+    expect(calls).toBe(0);
+    window.dispatchEvent(new Event('pagehide'));
+    expect(calls).toBe(1);
+    remove();
+    window.dispatchEvent(new Event('pagehide'));
+    expect(calls).toBe(1);
+  });
+
+  it('drains the loggers, then our queue, once each, when the page is unloaded', async () => {
+    vi.stubGlobal('window', new EventTarget());
+    const beacons = stubBeacon();
+    const shared = JSON.stringify({ event: 'test', n: 1 });
+    const instance = loEvent.createLoEvent('org.example.beacon', '1', [
+      drainingLogger([shared]),
+      drainingLogger([shared, JSON.stringify({ event: 'test', n: 2 })])
+    ], {
+      queueType: QueueType.IN_MEMORY,
+      beaconEndpoint: '/beacon'
+    });
+    // Not started, so this stays in our queue
+    instance.logEvent('test', { n: 3 });
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(beacons.length).toBe(1);
+    const [header, ...events] = beacons[0].lines;
+    expect(header.event).toBe('session_header');
+    expect(events.map(e => e.n)).toEqual([1, 2, 3]);
+
+    // Drained events are not sent again
+    window.dispatchEvent(new Event('pagehide'));
+    expect(beacons.length).toBe(1);
+    await instance.stop(100);
+  });
+
+  it('sends nothing while the server holds our events', async () => {
+    vi.stubGlobal('window', new EventTarget());
+    const beacons = stubBeacon();
+    const instance = loEvent.createLoEvent('org.example.beaconHold', '1', [drainingLogger([JSON.stringify({ event: 'test', n: 1 })])], {
+      queueType: QueueType.IN_MEMORY,
+      beaconEndpoint: '/beacon'
+    });
+    disabler.handleBlockError(new disabler.BlockError('hold', disabler.TIME_LIMIT.PERMANENT, 'MAINTAIN'));
+    instance.logEvent('test', { n: 2 });
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(beacons).toEqual([]);
+    await disabler.release();
+    await instance.stop(100);
+  });
+
+  it('hands back what the websocket logger has not sent', () => {
+    const logger = websocketLogger('ws://localhost:1', { queueType: QueueType.IN_MEMORY });
+    logger(JSON.stringify({ event: 'test', n: 1 }));
+    logger(JSON.stringify({ event: 'test', n: 2 }));
+    expect(logger.drain().map(data => JSON.parse(data).n)).toEqual([1, 2]);
+    expect(logger.drain()).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/*
+ * Test of the Caliper event builders, converter, and validator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as caliper from '../src/caliper.js';
+
+const fields = { source: 'org.ets.lo_event.test', user_id: 'student 1' };
+const personIdBase = 'https://lo.example.org';
+
+describe('buildEvent', () => {
+  it('fills in the profile types, actor, id, and time', () => {
+    const event = caliper.assessmentItemEvent('Completed', {
+      object: { id: 'https://example.org/quiz/1/q3', name: 'Question 3' },
+      generated: { id: 'https://example.org/quiz/1/q3/responses/1', type: 'Response' },
+      edApp: 'https://example.org'
+    }, { fields, personIdBase });
+
+    expect(event['@context']).toBe('http://purl.imsglobal.org/ctx/caliper/v1p2');
+    expect(event.type).toBe('AssessmentItemEvent');
+    expect(event.actor).toEqual({ id: 'https://lo.example.org/users/student%201', type: 'Person' });
+    expect(event.object).toEqual({ id: 'https://example.org/quiz/1/q3', type: 'AssessmentItem', name: 'Question 3' });
+    expect(event.edApp).toEqual({ id: 'https://example.org', type: 'SoftwareApplication' });
+    expect(event.id).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+    expect(caliper.validateEvent(event)).toEqual([]);
+  });
+
+  it('throws on actions outside the profile, and without an actor', () => {
+    expect(() => caliper.buildEvent('ToolUseEvent', 'Submitted', { object: 'https://example.org' }, { fields, personIdBase }))
+      .toThrow('Unknown Caliper action for ToolUseEvent: Submitted');
+    expect(() => caliper.toolUseEvent({ object: 'https://example.org' }, { fields: {} }))
+      .toThrow('No Caliper actor');
+  });
+});
+
+describe('fromLoEvent', () => {
+  it('converts mapped events, with the time lo_event stamped', () => {
+    const mapping = {
+      submit: { type: 'AssessmentEvent', action: 'Submitted', parts: (event) => ({ object: event.quiz }) }
+    };
+    const event = caliper.fromLoEvent(
+      { event: 'submit', quiz: 'https://example.org/quiz/1', metadata: { iso_ts: '2026-01-01T00:00:00.000Z' } },
+      mapping,
+      { fields: { email: 'student@example.org' } }
+    );
+    expect(event.action).toBe('Submitted');
+    expect(event.object).toEqual({ id: 'https://example.org/quiz/1', type: 'Assessment' });
+    expect(event.actor).toEqual({ id: 'mailto:student@example.org', type: 'Person' });
+    expect(event.eventTime).toBe('2026-01-01T00:00:00.000Z');
+
+    const navigation = caliper.fromLoEvent(
+      { event: 'browser.generic.hashchange', newURL: 'https://example.org/#b', oldURL: 'https://example.org/#a' },
+      {}, { fields, personIdBase }
+    );
+    expect(navigation.type).toBe('NavigationEvent');
+    expect(navigation.referrer.id).toBe('https://example.org/#a');
+
+    expect(caliper.fromLoEvent({ event: 'mouseclick' }, mapping, { fields, personIdBase })).toBeNull();
+    expect(caliper.fromLoEvent({ event: 'toString' }, mapping, { fields, personIdBase })).toBeNull();
+  });
+});
+
+describe('validateEvent', () => {
+  it('reports non-conformant events', () => {
+    expect(caliper.validateEvent({
+      '@context': 'http://purl.imsglobal.org/ctx/caliper/v1p1',
+      id: 'not-a-uuid',
+      type: 'SessionEvent',
+      actor: { id: 'student', type: 'Person' },
+      action: 'Used',
+      object: { id: 'https://example.org' },
+      eventTime: '2026-01-01'
+    })).toEqual([
+      '@context: must be http://purl.imsglobal.org/ctx/caliper/v1p2',
+      'id: must be a urn:uuid: IRI',
+      'action: must be one of LoggedIn, LoggedOut, TimedOut',
+      'actor.id: must be an IRI',
+      'object.type: is required',
+      'eventTime: must be an ISO 8601 UTC timestamp with milliseconds'
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+/*
+ * Test of the Caliper logger against a small stand-in endpoint.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { caliperLogger } from '../src/caliperLogger.js';
+import { QueueType } from '../src/queue.js';
+import * as disabler from '../src/disabler.js';
+
+let server;
+let endpoint;
+const requests = [];
+// Status codes to answer the next requests with, then 200
+const responses = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, envelope: JSON.parse(body) });
+      const status = responses.shift() ?? 200;
+      res.writeHead(status, status === 429 ? { 'Retry-After': '0' } : {});
+      res.end();
+    });
+  });
+  await new Promise(resolve => server.listen(0, 'localhost', resolve));
+  endpoint = `http://localhost:${server.address().port}/caliper`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+describe('caliperLogger', () => {
+  it('posts converted events in an envelope, retrying when rate limited', async () => {
+    responses.push(429);
+    const logger = caliperLogger(endpoint, {
+      sensor: 'https://example.org/sensor',
+      token: 'abc',
+      personIdBase: 'https://example.org',
+      mapping: {
+        submit: { type: 'AssessmentEvent', action: 'Submitted', parts: (event) => ({ object: event.quiz }) }
+      },
+      queueType: QueueType.IN_MEMORY
+    });
+    logger.setField(JSON.stringify({ event: 'lock_fields', fields: { user_id: 'student1' } }));
+    await logger.init();
+    logger(JSON.stringify({ event: 'submit', quiz: 'https://example.org/quiz/1' }));
+    logger(JSON.stringify({ event: 'mouseclick' }));
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(requests.length).toBe(2);
+    const { headers, envelope } = requests[1];
+    expect(headers.authorization).toBe('Bearer abc');
+    expect(envelope.sensor).toBe('https://example.org/sensor');
+    expect(envelope.dataVersion).toBe('http://purl.imsglobal.org/ctx/caliper/v1p2');
+    expect(envelope.data.map(e => e.action)).toEqual(['Submitted']);
+    expect(envelope.data[0].actor.id).toBe('https://example.org/users/student1');
+    expect((await logger.getStatus()).connected).toBe(true);
+    await logger.stop();
+  });
+
+  it('posts nothing while the server holds events', async () => {
+    disabler.handleBlockError(new disabler.BlockError('hold', disabler.TIME_LIMIT.PERMANENT, 'MAINTAIN'));
+    const logger = caliperLogger(endpoint, {
+      sensor: 'https://example.org/sensor',
+      personIdBase: 'https://example.org',
+      mapping: {
+        submit: { type: 'AssessmentEvent', action: 'Submitted', parts: (event) => ({ object: event.quiz }) }
+      },
+      queueType: QueueType.IN_MEMORY
+    });
+    logger.setField(JSON.stringify({ event: 'lock_fields', fields: { user_id: 'student1' } }));
+    await logger.init();
+    const before = requests.length;
+    logger(JSON.stringify({ event: 'submit', quiz: 'https://example.org/quiz/2' }));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(requests.length).toBe(before);
+
+    await disabler.release();
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(requests.length).toBe(before + 1);
+    await logger.stop();
+  });
+});
@@ -0,0 +1,67 @@
+/*
+ * Test of consent decisions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createConsent, CONSENT_EVENT } from '../src/consent.js';
+import { EVENT_ACTION } from '../src/disabler.js';
+
+const categories = {
+  keystrokes: ['browser.key.*'],
+  analytics: ['browser.*', 'page_*']
+};
+
+describe('createConsent', () => {
+  it('puts events in the first matching category', () => {
+    const consent = createConsent('org.example.categories', { categories });
+    expect(consent.categoryOf('browser.key.keydown')).toBe('keystrokes');
+    expect(consent.categoryOf('browser.mouse.click')).toBe('analytics');
+    expect(consent.categoryOf('submit')).toBe(null);
+    expect(consent.categoryOf(CONSENT_EVENT)).toBe(null);
+  });
+
+  it('holds, sends, or drops events per decision, and remembers decisions', async () => {
+    const consent = createConsent('org.example.decisions', { categories });
+    expect(consent.actionFor('analytics')).toBe(EVENT_ACTION.MAINTAIN);
+    expect(consent.actionFor(null)).toBe(EVENT_ACTION.TRANSMIT);
+    await consent.load();
+
+    const granted = consent.whenGranted('analytics');
+    expect(consent.set({ analytics: true, keystrokes: false })).toEqual({
+      analytics: { from: null, to: true },
+      keystrokes: { from: null, to: false }
+    });
+    await granted;
+    expect(consent.actionFor('analytics')).toBe(EVENT_ACTION.TRANSMIT);
+    expect(consent.actionFor('keystrokes')).toBe(EVENT_ACTION.DROP);
+    expect(consent.set({ analytics: true })).toEqual({});
+    expect(() => consent.set({ location: true })).toThrow('Unknown consent category');
+
+    const reloaded = createConsent('org.example.decisions', { categories });
+    await reloaded.load();
+    expect(reloaded.get()).toEqual({ analytics: true, keystrokes: false });
+  });
+
+  it('keeps stored decisions on other categories when set before loading', async () => {
+    const first = createConsent('org.example.early', { categories });
+    await first.load();
+    first.set({ analytics: true, keystrokes: false });
+
+    const early = createConsent('org.example.early', { categories });
+    early.set({ analytics: false });
+    await early.load();
+    expect(early.get()).toEqual({ analytics: false, keystrokes: false });
+
+    const reloaded = createConsent('org.example.early', { categories });
+    await reloaded.load();
+    expect(reloaded.get()).toEqual({ analytics: false, keystrokes: false });
+  });
+
+  it('drops undecided events once loaded, if asked to', async () => {
+    const consent = createConsent('org.example.pending', { categories, whilePending: EVENT_ACTION.DROP });
+    // Not yet: there may be a stored decision
+    expect(consent.actionFor('analytics')).toBe(EVENT_ACTION.MAINTAIN);
+    await consent.load();
+    expect(consent.actionFor('analytics')).toBe(EVENT_ACTION.DROP);
+  });
+});
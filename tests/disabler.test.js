@@ -0,0 +1,57 @@
+/*
+ * Test of the disabler's holds (MAINTAIN).
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as disabler from '../src/disabler.js';
+import { storage } from '../src/browserStorage.js';
+
+const { BlockError, EVENT_ACTION, TIME_LIMIT } = disabler;
+
+function hold (timeLimit = TIME_LIMIT.PERMANENT) {
+  disabler.handleBlockError(new BlockError('hold', timeLimit, 'MAINTAIN'));
+}
+
+function storedState () {
+  return new Promise(resolve => storage.get(['disablerState'], result => resolve(result.disablerState)));
+}
+
+describe('disabler', () => {
+  it('stores but does not stream events during a hold, until released', async () => {
+    hold();
+    expect(disabler.storeEvents()).toBe(true);
+    expect(disabler.streamEvents()).toBe(false);
+    expect((await storedState()).action).toBe(EVENT_ACTION.MAINTAIN);
+
+    const order = [];
+    const removePurge = disabler.onPurge(() => { order.push('purged'); });
+    const released = disabler.waitUntilReleased().then(() => order.push('released'));
+    const retried = disabler.retry();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(order).toEqual([]);
+
+    await disabler.release({ purge: true });
+    await released;
+    expect(await retried).toBe(true);
+    expect(order).toEqual(['purged', 'released']);
+    expect(disabler.streamEvents()).toBe(true);
+    expect((await storedState()).action).toBe(EVENT_ACTION.TRANSMIT);
+    removePurge();
+  });
+
+  it('keeps holds across reloads', async () => {
+    hold();
+    await disabler.init();
+    expect(disabler.streamEvents()).toBe(false);
+    await disabler.release();
+    await disabler.init();
+    expect(disabler.streamEvents()).toBe(true);
+  });
+
+  it('lifts a hold when it expires', async () => {
+    hold(30);
+    expect(disabler.streamEvents()).toBe(false);
+    expect(await disabler.waitUntilReleased()).toBe(true);
+    expect(disabler.streamEvents()).toBe(true);
+  });
+});
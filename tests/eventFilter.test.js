@@ -0,0 +1,46 @@
+/*
+ * Test of per-logger event filters.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { compileFilter, resolveLoggers } from '../src/eventFilter.js';
+
+describe('compileFilter', () => {
+  it('matches event types by glob, and by predicate', () => {
+    const accepts = compileFilter({
+      events: ['browser.mouse.*', 'submit'],
+      exclude: ['*.dblclick'],
+      where: event => event.draft !== true
+    });
+    expect(accepts({ event: 'browser.mouse.click' })).toBe(true);
+    expect(accepts({ event: 'browser.mouse.dblclick' })).toBe(false);
+    expect(accepts({ event: 'browser.key.keydown' })).toBe(false);
+    expect(accepts({ event: 'submit' })).toBe(true);
+    expect(accepts({ event: 'submit', draft: true })).toBe(false);
+    // Dots are not wildcards
+    expect(accepts({ event: 'browserXmouse.click' })).toBe(false);
+  });
+
+  it('samples events', () => {
+    const random = vi.spyOn(Math, 'random');
+    const accepts = compileFilter({ sample: 0.25 });
+    random.mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+    expect(accepts({ event: 'test' })).toBe(true);
+    expect(accepts({ event: 'test' })).toBe(false);
+    random.mockRestore();
+    expect(() => compileFilter({ sample: 2 })).toThrow('between 0 and 1');
+  });
+});
+
+describe('resolveLoggers', () => {
+  it('keeps the loggers themselves, with their properties', () => {
+    const plain = () => {};
+    const filtered = () => {};
+    filtered.setField = () => {};
+    const { loggers, filters } = resolveLoggers([plain, { logger: filtered, filter: { events: ['submit'] } }]);
+    expect(loggers).toEqual([plain, filtered]);
+    expect(loggers[1].setField).toBe(filtered.setField);
+    expect(filters.has(plain)).toBe(false);
+    expect(filters.get(filtered)({ event: 'submit' })).toBe(true);
+  });
+});
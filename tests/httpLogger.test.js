@@ -0,0 +1,163 @@
+/*
+ * Test of the HTTP batch logger against a small stand-in server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { httpLogger } from '../src/httpLogger.js';
+import { Queue, QueueType } from '../src/queue.js';
+import * as disabler from '../src/disabler.js';
+import * as util from '../src/util.js';
+
+let server;
+let endpoint;
+const batches = [];
+let nextResponse = '';
+// Requests to `/hang/` which we have not answered
+const hanging = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.url === '/hang/') {
+        hanging.push(res);
+        return;
+      }
+      if (req.url === '/reject/' && !body.includes('"accept"')) {
+        res.statusCode = 400;
+        res.end('bad batch');
+        return;
+      }
+      const batch = body.trim().split('\n').map(line => JSON.parse(line));
+      batch.path = req.url;
+      batches.push(batch);
+      res.end(nextResponse);
+    });
+  });
+  await new Promise(resolve => server.listen(0, 'localhost', resolve));
+  endpoint = `http://localhost:${server.address().port}/webapi/`;
+});
+
+afterAll(() => {
+  hanging.forEach(res => res.destroy());
+  return new Promise(resolve => server.close(resolve));
+});
+
+describe('httpLogger', () => {
+  it('posts NDJSON batches with the session header first', async () => {
+    const logger = httpLogger(endpoint, { batchSize: 2, batchInterval: 50 });
+    await logger.init();
+    logger.setField(JSON.stringify({ event: 'lock_fields', fields: { source: 'test' } }));
+    logger(JSON.stringify({ event: 'test', event_number: 1 }));
+    logger(JSON.stringify({ event: 'test', event_number: 2 }));
+    logger(JSON.stringify({ event: 'test', event_number: 3 }));
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(batches.length).toBe(2);
+    for (const batch of batches) {
+      expect(batch[0].event).toBe('session_header');
+      expect(batch[0].fields.source).toBe('test');
+    }
+    expect(batches[0].slice(1).map(e => e.event_number)).toEqual([1, 2]);
+    expect(batches[1].slice(1).map(e => e.event_number)).toEqual([3]);
+  });
+
+  it('sends a backlog under the fields each event was logged under', async () => {
+    const logger = httpLogger(endpoint, { batchSize: 10, batchInterval: 50 });
+    const before = batches.length;
+    // Logged before we start, as if offline
+    logger.setField(JSON.stringify({ event: 'lock_fields', version: 1, fields: { user_id: 'ada' } }));
+    logger(JSON.stringify({ event: 'test', event_number: 1 }));
+    logger.setField(JSON.stringify({ event: 'unlock_fields', version: 2, fields: ['user_id'] }));
+    logger(JSON.stringify({ event: 'test', event_number: 2 }));
+    logger.setField(JSON.stringify({ event: 'lock_fields_reset', version: 3, fields: { user_id: 'grace' } }));
+    logger(JSON.stringify({ event: 'test', event_number: 3 }));
+    await logger.init();
+
+    expect(await util.waitFor(() => batches.length > before, 2000)).toBe(true);
+    expect(batches[before].map(line => line.event === 'session_header' ? line.fields.user_id ?? null : line.event_number))
+      .toEqual(['ada', 1, null, 2, 'grace', 3]);
+    await logger.stop();
+  });
+
+  it('raises a BlockError after a blocklist response', async () => {
+    nextResponse = JSON.stringify({ status: 'blocklist', message: 'blocked', time_limit: 'MINUTES', action: 'DROP' });
+    const logger = httpLogger(endpoint, { batchSize: 1 });
+    await logger.init();
+    logger(JSON.stringify({ event: 'test' }));
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(() => logger(JSON.stringify({ event: 'test' }))).toThrow(disabler.BlockError);
+  });
+
+  it('keeps a batch queued until the server accepts it', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+    const previous = process.env.LO_EVENT_QUEUE_DIR;
+    process.env.LO_EVENT_QUEUE_DIR = directory;
+    try {
+      const hangingEndpoint = endpoint.replace('/webapi/', '/hang/');
+      const logger = httpLogger(hangingEndpoint, { batchSize: 2, batchInterval: 50, queueType: QueueType.FILE });
+      await logger.init();
+      logger(JSON.stringify({ event: 'test', event_number: 1 }));
+      logger(JSON.stringify({ event: 'test', event_number: 2 }));
+      expect(await util.waitFor(() => hanging.length === 1, 2000)).toBe(true);
+
+      // Stopped mid-POST, as if the page were closed
+      await logger.stop();
+      const journal = new Queue(`httpLogger-${hangingEndpoint.replace(/[^A-Za-z0-9]+/g, '_')}`, { queueType: QueueType.FILE, directory });
+      expect((await journal.peek(3)).map(({ data }) => JSON.parse(data).event_number)).toEqual([1, 2]);
+    } finally {
+      process.env.LO_EVENT_QUEUE_DIR = previous;
+    }
+  });
+
+  it('sets aside a batch the server rejects, and sends the rest', async () => {
+    const rejecting = endpoint.replace('/webapi/', '/reject/');
+    const logger = httpLogger(rejecting, { batchSize: 1, batchInterval: 50, queueType: QueueType.IN_MEMORY });
+    await logger.init();
+    logger(JSON.stringify({ event: 'test', event_number: 1 }));
+    logger(JSON.stringify({ event: 'accept', event_number: 2 }));
+
+    const sent = () => batches.filter(batch => batch.path === '/reject/').flatMap(batch => batch.map(e => e.event_number));
+    expect(await util.waitFor(() => sent().length === 1, 2000)).toBe(true);
+    expect(sent()).toEqual([2]);
+    const { queue } = await logger.getStatus();
+    expect(queue.deadLetters).toBe(1);
+    await logger.stop();
+  });
+
+  it('keeps a queue of its own for each endpoint', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+    const previous = process.env.LO_EVENT_QUEUE_DIR;
+    process.env.LO_EVENT_QUEUE_DIR = directory;
+    try {
+      const first = endpoint.replace('/webapi/', '/first/');
+      const second = endpoint.replace('/webapi/', '/second/');
+      const firstLogger = httpLogger(first, { batchSize: 1, batchInterval: 50, queueType: QueueType.FILE });
+      firstLogger(JSON.stringify({ event: 'test', event_number: 1 }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // As if on the next page load, with a logger for another endpoint
+      const secondLogger = httpLogger(second, { batchSize: 1, batchInterval: 50, queueType: QueueType.FILE });
+      await secondLogger.init();
+      secondLogger(JSON.stringify({ event: 'test', event_number: 2 }));
+      await firstLogger.init();
+
+      const sentTo = (route) => batches.filter(batch => batch.path === route).flatMap(batch => batch.map(e => e.event_number));
+      expect(await util.waitFor(() => sentTo('/first/').length + sentTo('/second/').length === 2, 2000)).toBe(true);
+      expect(sentTo('/first/')).toEqual([1]);
+      expect(sentTo('/second/')).toEqual([2]);
+      await firstLogger.stop();
+      await secondLogger.stop();
+    } finally {
+      process.env.LO_EVENT_QUEUE_DIR = previous;
+    }
+  });
+});
@@ -0,0 +1,113 @@
+/*
+ * Test of the IndexedDB queue, against fake-indexeddb.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { Queue, QueueType } from '../src/queue.js';
+
+function wait (ms = 50) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('IndexedDB queue', () => {
+  it('is what we use by default where there is IndexedDB', async () => {
+    const queue = new Queue('idbDefault', { coordinate: false });
+    queue.enqueue('a');
+    expect(await queue.peek()).toEqual(['a']);
+  });
+
+  it('leases batches in FIFO order, and removes them once handled', async () => {
+    const queue = new Queue('idbBatches', { queueType: QueueType.INDEXEDDB, coordinate: false });
+    [0, 1, 2, 3, 4].forEach(queue.enqueue);
+    const received = [];
+    queue.startDequeueLoop({
+      onDequeue: (items) => { received.push(items); },
+      batchSize: 2
+    });
+    await wait(100);
+
+    expect(received).toEqual([[0, 1], [2, 3], [4]]);
+    expect(await queue.size()).toBe(0);
+    await queue.stop();
+  });
+
+  it('keeps items it failed to handle at the head of the queue', async () => {
+    const queue = new Queue('idbRetry', { queueType: QueueType.INDEXEDDB, coordinate: false });
+    ['a', 'b'].forEach(queue.enqueue);
+    const received = [];
+    let failures = 1;
+    queue.startDequeueLoop({
+      onDequeue: (item) => {
+        if (failures-- > 0) throw new Error('could not send');
+        received.push(item);
+      },
+      onError: () => {},
+      retryDelay: 1
+    });
+    await wait(100);
+
+    expect(received).toEqual(['a', 'b']);
+    expect(await queue.size()).toBe(0);
+    await queue.stop();
+  });
+
+  it('keeps items across page loads, including those leased but not handled', async () => {
+    const first = new Queue('idbReload', { queueType: QueueType.INDEXEDDB, coordinate: false });
+    ['a', 'b', 'c'].forEach(first.enqueue);
+    first.startDequeueLoop({
+      onDequeue: () => new Promise(() => {}) // never finishes sending
+    });
+    await wait();
+
+    const second = new Queue('idbReload', { queueType: QueueType.INDEXEDDB, coordinate: false });
+    expect(await second.size()).toBe(3);
+    expect(await second.peek(3)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('reports size, age, and contents', async () => {
+    const before = Date.now();
+    const queue = new Queue('idbIntrospection', { queueType: QueueType.INDEXEDDB, coordinate: false });
+    expect(await queue.oldestTimestamp()).toBe(null);
+    ['a', 'bb', 'ccc'].forEach(queue.enqueue);
+
+    expect(await queue.status()).toMatchObject({ size: 3, byteSize: 6 });
+    expect(await queue.oldestTimestamp()).toBeGreaterThanOrEqual(before);
+    expect(await queue.peek(2)).toEqual(['a', 'bb']);
+
+    // Our running byte count follows items as they come and go
+    const received = [];
+    queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    await wait();
+    expect(received).toEqual(['a', 'bb', 'ccc']);
+    expect(await queue.byteSize()).toBe(0);
+    await queue.stop();
+    queue.enqueue('dddd');
+    expect(await queue.byteSize()).toBe(4);
+    await queue.clear();
+    expect(await queue.status()).toMatchObject({ size: 0, byteSize: 0 });
+  });
+
+  it('discards items once over its limits', async () => {
+    const queue = new Queue('idbLimits', { queueType: QueueType.INDEXEDDB, coordinate: false, limits: { maxItems: 2 } });
+    ['a', 'b', 'c'].forEach(queue.enqueue);
+    await wait();
+    expect(await queue.peek(3)).toEqual(['b', 'c']);
+  });
+
+  it('counts what other tabs sent before discarding anything', async () => {
+    const limits = { maxItems: 3, overflowPolicy: 'DROP_NEWEST' };
+    const leader = new Queue('idbShared', { queueType: QueueType.INDEXEDDB, coordinate: true, limits });
+    const other = new Queue('idbShared', { queueType: QueueType.INDEXEDDB, coordinate: true, limits });
+    const received = [];
+    leader.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    for (let i = 0; i < 8; i++) {
+      other.enqueue(i);
+      await wait(20);
+    }
+    await wait();
+
+    expect(received).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    await leader.stop();
+  });
+});
@@ -2,15 +2,39 @@
  * Test of basic functionality. This uses the redux logger, primarily.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { indexedDB } from 'fake-indexeddb';
 import * as loEvent from '../src/loEvent.js';
 import * as reduxLogger from '../src/reduxLogger.js';
 import { consoleLogger } from '../src/consoleLogger.js';
 import * as debug from '../src/debugLog.js';
+import * as disabler from '../src/disabler.js';
 import { getBrowserInfo } from '../src/metadata/browserinfo.js';
 
 const rl = reduxLogger.reduxLogger();
 
+function collectingLogger () {
+  const logger = (event) => logger.events.push(JSON.parse(event));
+  logger.events = [];
+  logger.fields = [];
+  logger.setField = (data) => logger.fields.push(JSON.parse(data));
+  return logger;
+}
+
+// Records each event with the user it reached the logger under
+function userLogger () {
+  let user;
+  const logger = (event) => logger.received.push([JSON.parse(event), user]);
+  logger.received = [];
+  logger.setField = (data) => {
+    const { event, fields } = JSON.parse(data);
+    if (event !== 'unlock_fields') {
+      user = event === 'lock_fields' ? fields.user_id ?? user : fields.user_id;
+    }
+  };
+  return logger;
+}
+
 loEvent.init(
   'org.ets.lo_event.test',
   '1',
@@ -45,4 +69,355 @@ describe('loEvent testing', () => {
     expect(fields.version).toBe('1');
     expect(fields.preauth_type).toBe('test');
   });
+
+  it('Starts a new session with new fields', async () => {
+    loEvent.lockFields([{ user_id: 'first' }]);
+    loEvent.resetSession({ user_id: 'second' });
+    const seen = [];
+    let event;
+    do {
+      event = await reduxLogger.awaitEvent();
+      seen.push(event);
+    } while (event.event !== 'session_start');
+
+    const end = seen.find(e => e.event === 'session_end');
+    expect(end).toBeDefined();
+    expect(event.previous_session).toBe(end.session);
+    expect(event.session).not.toBe(end.session);
+    const fields = rl.getLockFields();
+    expect(fields.user_id).toBe('second');
+    expect(fields.source).toBe('org.ets.lo_event.test');
+    expect(fields.preauth_type).toBeUndefined();
+  });
+
+  it('Sends events logged right after a new session under its fields', async () => {
+    const logger = userLogger();
+    const { received } = logger;
+    const instance = loEvent.createLoEvent('org.example.reset', '1', [logger], { queueType: loEvent.QueueType.IN_MEMORY });
+    instance.lockFields([{ user_id: 'ada' }]);
+    instance.go();
+    instance.logEvent('test', { n: 1 });
+    instance.resetSession({ user_id: 'grace' });
+    instance.logEvent('test', { n: 2 });
+    instance.logXAPI({ verb: 'answered', object: { id: 'https://example.org/quiz/1/q1' } }, { accountHomePage: 'https://example.org' });
+    await instance.flush(1000);
+
+    expect(received.map(([event, user]) => [event.n ?? event.event, user])).toEqual([
+      [1, 'ada'],
+      ['session_end', 'ada'],
+      ['session_start', 'grace'],
+      [2, 'grace'],
+      ['xapi_statement', 'grace']
+    ]);
+    expect(received[4][0].statement.actor.account.name).toBe('grace');
+    await instance.stop();
+  });
+
+  it('Reports its status', async () => {
+    const status = await loEvent.getStatus();
+    expect(status.state).toBe('READY');
+    expect(status.queue.size).toBeTypeOf('number');
+    expect(status.loggers.map(logger => logger.name)).toEqual(['Console Logger', 'redux_logger']);
+  });
+
+  it('Flushes, stops, and starts again', async () => {
+    const { flushed } = await loEvent.flush(1000);
+    expect(flushed).toBe(true);
+
+    await loEvent.stop();
+    expect((await loEvent.getStatus()).state).toBe('NOT_STARTED');
+    expect(rl.getLockFields()).toEqual({});
+
+    const received = [];
+    const logger = (event) => received.push(JSON.parse(event));
+    loEvent.init('org.ets.lo_event.test', '2', [logger], { queueType: loEvent.QueueType.IN_MEMORY });
+    expect(() => loEvent.init('org.ets.lo_event.test', '2', [logger])).toThrow('already initialized');
+    loEvent.go();
+    loEvent.logEvent('test', { event_number: 4 });
+    await loEvent.flush(1000);
+    expect(received.map(e => e.event_number)).toContain(4);
+    await loEvent.stop();
+  });
+
+  it('Keeps separate instances apart', async () => {
+    const quizLogger = collectingLogger();
+    const chatLogger = collectingLogger();
+    const options = { queueType: loEvent.QueueType.IN_MEMORY, verboseEvents: true };
+    const quiz = loEvent.createLoEvent('org.example.quiz', '1', [quizLogger], options);
+    const chat = loEvent.createLoEvent('org.example.chat', '7', [chatLogger], options);
+    quiz.lockFields([{ user_id: 'ada' }]);
+    quiz.go();
+    chat.go();
+    quiz.logEvent('submit', { response: '42' });
+    chat.logEvent('message', { text: 'hi' });
+    await quiz.flush(1000);
+    await chat.flush(1000);
+
+    expect(quizLogger.events.map(e => e.event)).toEqual(['submit']);
+    expect(chatLogger.events.map(e => e.event)).toEqual(['message']);
+    expect(quizLogger.events[0].metadata.sessionTag).not.toBe(chatLogger.events[0].metadata.sessionTag);
+    const chatFields = Object.assign({}, ...chatLogger.fields.map(change => change.fields));
+    expect(chatFields).toMatchObject({ source: 'org.example.chat', version: '7' });
+    expect(chatFields.user_id).toBeUndefined();
+    expect((await loEvent.getStatus()).state).toBe('NOT_STARTED');
+
+    await quiz.stop();
+    expect((await quiz.getStatus()).state).toBe('NOT_STARTED');
+    expect((await chat.getStatus()).state).toBe('READY');
+    await chat.stop();
+  });
+
+  it('Sends each tab\'s events to its own loggers, under its own fields', async () => {
+    // Two tabs, each with its own copy of lo_event, sharing IndexedDB.
+    // The first tab to ask for a lock keeps it.
+    const locked = new Set();
+    vi.stubGlobal('indexedDB', indexedDB);
+    vi.stubGlobal('navigator', {
+      locks: {
+        request (name, callback) {
+          if (!locked.has(name)) {
+            locked.add(name);
+            callback();
+          }
+        }
+      }
+    });
+    const tabs = [];
+    for (const [n, user] of [[0, 'ada'], [1, 'grace']]) {
+      vi.resetModules();
+      const tabLoEvent = await import('../src/loEvent.js');
+      const logger = collectingLogger();
+      const instance = tabLoEvent.createLoEvent('org.example.tabs', '1', [logger]);
+      instance.lockFields([{ user_id: user }]);
+      instance.go();
+      instance.logEvent('test', { n });
+      tabs.push({ instance, logger });
+    }
+    for (const { instance } of tabs) {
+      await instance.flush(1000);
+    }
+
+    expect(tabs.map(({ logger }) => logger.events.filter(e => e.event === 'test').map(e => e.n))).toEqual([[0], [1]]);
+    expect(tabs.map(({ logger }) => Object.assign({}, ...logger.fields.map(change => change.fields)).user_id)).toEqual(['ada', 'grace']);
+    for (const { instance } of tabs) {
+      await instance.stop();
+    }
+    vi.unstubAllGlobals();
+  });
+
+  it('Runs middleware as events are logged and sent', async () => {
+    const serverLogger = collectingLogger();
+    const consoleLog = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.middleware', '1', [serverLogger, consoleLog], {
+      queueType: loEvent.QueueType.IN_MEMORY
+    });
+    instance.use(event => event.event === 'noise' ? null : event);
+    const removeEnrich = instance.use(event => ({ ...event, activity: 'quiz' }));
+    instance.use(event => {
+      delete event.target.value;
+      return event;
+    }, { logger: consoleLog });
+    instance.use(() => { throw new Error('broken'); }, { logger: consoleLog });
+    instance.go();
+    instance.logEvent('noise', {});
+    instance.logEvent('keydown', { target: { id: 'answer', value: 'secret' } });
+    await instance.flush(1000);
+    removeEnrich();
+    instance.logEvent('keydown', { target: { id: 'answer', value: 'more' } });
+    await instance.flush(1000);
+
+    expect(serverLogger.events.map(e => [e.event, e.activity, e.target.value]))
+      .toEqual([['keydown', 'quiz', 'secret'], ['keydown', undefined, 'more']]);
+    // Its middleware throws, so it gets nothing
+    expect(consoleLog.events).toEqual([]);
+    await instance.stop();
+  });
+
+  it('Delivers keystrokes ahead of other browser telemetry', async () => {
+    const logger = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.priority', '1', [logger], {
+      queueType: loEvent.QueueType.IN_MEMORY
+    });
+    // Queued until we go, then delivered most important first
+    instance.logEvent('browser.mouse.click', {});
+    instance.logEvent('browser.key.keydown', {});
+    instance.logEvent('browser.generic.input', {});
+    instance.go();
+    await instance.flush(1000);
+
+    expect(logger.events.map(e => e.event).filter(event => event.startsWith('browser.'))).toEqual([
+      'browser.key.keydown', 'browser.generic.input', 'browser.mouse.click'
+    ]);
+    await instance.stop();
+  });
+
+  it('Sends each logger the events its filter accepts', async () => {
+    const everything = collectingLogger();
+    const appOnly = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.filters', '1', [
+      everything,
+      { logger: appOnly, filter: { exclude: ['browser.*'] } }
+    ], { queueType: loEvent.QueueType.IN_MEMORY });
+    instance.go();
+    instance.logEvent('browser.mouse.click', {});
+    instance.logEvent('submit', {});
+    await instance.flush(1000);
+
+    expect(everything.events.map(e => e.event).sort()).toEqual(['browser.mouse.click', 'submit']);
+    expect(appOnly.events.map(e => e.event)).toEqual(['submit']);
+    // Filtered loggers still get lock fields
+    expect(appOnly.fields.length).toBeGreaterThan(0);
+    await instance.stop();
+  });
+
+  it('Keeps sending to the other loggers when one fails', async () => {
+    const working = collectingLogger();
+    const failing = collectingLogger();
+    const broken = (event) => {
+      failing(event);
+      throw new Error('logger failed');
+    };
+    const instance = loEvent.createLoEvent('org.example.failing', '1', [broken, working], {
+      queueType: loEvent.QueueType.IN_MEMORY
+    });
+    instance.go();
+    instance.logEvent('first', {});
+    instance.logEvent('second', {});
+    await instance.flush(1000);
+
+    // Each event is delivered once, not retried on every logger
+    expect(working.events.map(e => e.event)).toEqual(['first', 'second']);
+    expect(failing.events.map(e => e.event)).toEqual(['first', 'second']);
+    await instance.stop();
+  });
+
+  it('Skips a logger whose filter fails', async () => {
+    const working = collectingLogger();
+    const filtered = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.failingFilter', '1', [
+      { logger: filtered, filter: { where: () => { throw new Error('filter failed'); } } },
+      working
+    ], { queueType: loEvent.QueueType.IN_MEMORY });
+    instance.go();
+    instance.logEvent('first', {});
+    instance.logEvent('second', {});
+    await instance.flush(1000);
+
+    expect(working.events.map(e => e.event)).toEqual(['first', 'second']);
+    expect(filtered.events).toEqual([]);
+    await instance.stop();
+  });
+
+  it('Redacts events and locked fields', async () => {
+    const logger = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.redaction', '1', [logger], {
+      queueType: loEvent.QueueType.IN_MEMORY,
+      redaction: {
+        rules: [{ path: 'cookie', action: 'drop' }],
+        detectors: [{ detector: 'email', action: 'mask' }]
+      }
+    });
+    instance.lockFields([{ cookie: 'sid=1', user: 'ada@example.org' }]);
+    instance.go();
+    instance.logEvent('message', { text: 'ada@example.org' });
+    await instance.flush(1000);
+
+    expect(logger.events[0].text).toBe('***************');
+    expect(logger.events[0].metadata.redacted).toEqual(['text']);
+    const locked = logger.fields.find(change => 'user' in change.fields);
+    expect(locked.fields).toEqual({ user: '***************' });
+    expect(locked.metadata.redacted).toEqual(['cookie', 'user']);
+    await instance.stop();
+  });
+
+  it('Holds events until consent, then releases or discards them', async () => {
+    const logger = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.consent', '1', [logger], {
+      queueType: loEvent.QueueType.IN_MEMORY,
+      consent: {
+        categories: { keystrokes: ['browser.key.*'], analytics: ['page_*'] }
+      }
+    });
+    instance.go();
+    instance.logEvent('page_view', { page: 1 });
+    instance.logEvent('browser.key.keydown', {});
+    instance.logEvent('submit', {});
+    await instance.flush(1000);
+    expect(logger.events.map(e => e.event)).toEqual(['submit']);
+    expect((await instance.getStatus()).consent.held).toEqual({ keystrokes: 1, analytics: 1 });
+
+    instance.consent.set({ analytics: true, keystrokes: false });
+    instance.logEvent('page_view', { page: 2 });
+    instance.logEvent('browser.key.keydown', {});
+    await instance.flush(1000);
+    expect(logger.events.filter(e => e.event === 'page_view').map(e => e.page)).toEqual([1, 2]);
+    expect(logger.events.some(e => e.event === 'browser.key.keydown')).toBe(false);
+    const changed = logger.events.find(e => e.event === 'consent_changed');
+    expect(changed.changes.analytics).toEqual({ from: null, to: true });
+    expect(instance.consent.get()).toEqual({ analytics: true, keystrokes: false });
+    expect((await instance.getStatus()).consent.held).toEqual({ keystrokes: 0, analytics: 0 });
+    await instance.stop();
+  });
+
+  it('Sends events released by consent during a new session under its fields', async () => {
+    const logger = userLogger();
+    const instance = loEvent.createLoEvent('org.example.consentReset', '1', [logger], {
+      queueType: loEvent.QueueType.IN_MEMORY,
+      consent: { categories: { keystrokes: ['browser.key.*'] } }
+    });
+    instance.lockFields([{ user_id: 'ada' }]);
+    instance.go();
+    instance.logEvent('browser.key.keydown', {});
+    await instance.flush(1000);
+    instance.resetSession({ user_id: 'grace' });
+    instance.consent.set({ keystrokes: true });
+    await instance.flush(1000);
+
+    expect(logger.received.map(([event, user]) => [event.event, user])).toEqual([
+      ['session_end', 'ada'],
+      ['consent_changed', 'grace'],
+      ['session_start', 'grace'],
+      ['browser.key.keydown', 'grace']
+    ]);
+    await instance.stop();
+  });
+
+  it('Keeps events while the server holds them, and sends them once released', async () => {
+    const logger = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.hold', '1', [logger], {
+      queueType: loEvent.QueueType.IN_MEMORY
+    });
+    disabler.handleBlockError(new disabler.BlockError('hold', disabler.TIME_LIMIT.PERMANENT, 'MAINTAIN'));
+    instance.go();
+    instance.logEvent('test', { event_number: 1 });
+    instance.logEvent('test', { event_number: 2 });
+    expect((await instance.flush(100)).flushed).toBe(false);
+    expect(logger.events).toEqual([]);
+
+    await disabler.release();
+    instance.logEvent('test', { event_number: 3 });
+    expect((await instance.flush(1000)).flushed).toBe(true);
+    expect(logger.events.map(e => e.event_number)).toEqual([1, 2, 3]);
+    await instance.stop();
+  });
+
+  it('Discards held events only for the logger whose server asks', async () => {
+    const first = collectingLogger();
+    const second = collectingLogger();
+    const instance = loEvent.createLoEvent('org.example.purge', '1', [first, second], {
+      queueType: loEvent.QueueType.IN_MEMORY
+    });
+    disabler.handleBlockError(new disabler.BlockError('hold', disabler.TIME_LIMIT.PERMANENT, 'MAINTAIN'));
+    instance.go();
+    instance.logEvent('test', { event_number: 1 });
+    instance.logEvent('test', { event_number: 2 });
+    expect((await instance.flush(100)).flushed).toBe(false);
+
+    await disabler.release({ purge: true, logger: first });
+    instance.logEvent('test', { event_number: 3 });
+    expect((await instance.flush(1000)).flushed).toBe(true);
+    expect(first.events.map(e => e.event_number)).toEqual([3]);
+    expect(second.events.map(e => e.event_number)).toEqual([1, 2, 3]);
+    await instance.stop();
+  });
 });
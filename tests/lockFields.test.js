@@ -0,0 +1,40 @@
+/*
+ * Test of the lock-field protocol.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LOCK_EVENTS, lockFieldsState, applyLockEvent, hasLockedFields, sessionHeader } from '../src/lockFields.js';
+
+describe('applyLockEvent', () => {
+  it('locks, unlocks, and resets fields, in version order', () => {
+    const state = lockFieldsState();
+    expect(hasLockedFields(state)).toBe(false);
+
+    applyLockEvent(state, { event: LOCK_EVENTS.LOCK, version: 1, fields: { source: 'test', user_id: 'ada' } });
+    applyLockEvent(state, { event: LOCK_EVENTS.UNLOCK, version: 2, fields: ['user_id'] });
+    expect(state).toEqual({ version: 2, fields: { source: 'test' } });
+
+    // A replayed change we already have
+    applyLockEvent(state, { event: LOCK_EVENTS.LOCK, version: 1, fields: { source: 'test', user_id: 'ada' } });
+    expect(state.fields).toEqual({ source: 'test' });
+
+    applyLockEvent(state, { event: LOCK_EVENTS.RESET, version: 3, fields: {} });
+    expect(state).toEqual({ version: 3, fields: {} });
+    expect(hasLockedFields(state)).toBe(true);
+
+    expect(applyLockEvent(state, { event: 'test' })).toBe(false);
+  });
+});
+
+describe('sessionHeader', () => {
+  it('carries the current fields, version, and resume token', () => {
+    const state = lockFieldsState();
+    applyLockEvent(state, { event: LOCK_EVENTS.LOCK, version: 4, fields: { source: 'test' } });
+    const header = sessionHeader(state, 'token-1');
+    expect(header.event).toBe('session_header');
+    expect(header.version).toBe(4);
+    expect(header.fields).toEqual({ source: 'test' });
+    expect(header.resume_token).toBe('token-1');
+    expect(header.metadata.iso_ts).toBeTypeOf('string');
+  });
+});
@@ -0,0 +1,181 @@
+/*
+ * Test of the xAPI LRS logger against a small stand-in LRS.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { lrsLogger } from '../src/lrsLogger.js';
+import { QueueType } from '../src/queue.js';
+import * as disabler from '../src/disabler.js';
+
+let server;
+let endpoint;
+let requests = [];
+// Status codes to answer the next requests with, then 200
+let responses = [];
+const stored = new Set();
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const statements = JSON.parse(body);
+      requests.push({ url: req.url, headers: req.headers, statements });
+      const status = responses.shift() ?? 200;
+      if (status === 429) {
+        res.writeHead(429, { 'Retry-After': '0' });
+      } else if (status === 200 && statements.some(s => stored.has(s.id))) {
+        res.writeHead(409);
+      } else {
+        res.writeHead(status);
+        if (status === 200) {
+          statements.forEach(s => stored.add(s.id));
+        }
+      }
+      res.end(status === 200 ? JSON.stringify(statements.map(s => s.id)) : '');
+    });
+  });
+  await new Promise(resolve => server.listen(0, 'localhost', resolve));
+  endpoint = `http://localhost:${server.address().port}/xapi/`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(() => {
+  requests = [];
+  responses = [];
+});
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function makeLogger (options = {}) {
+  const logger = lrsLogger(endpoint, {
+    queueType: QueueType.IN_MEMORY,
+    accountHomePage: 'https://example.org',
+    ...options
+  });
+  logger.setField(JSON.stringify({ event: 'lock_fields', fields: { user_id: 'student1' } }));
+  await logger.init();
+  return logger;
+}
+
+describe('lrsLogger', () => {
+  it('posts mapped events as a batch of statements', async () => {
+    const logger = await makeLogger({
+      auth: { username: 'key', password: 'secret' },
+      mapping: {
+        submit: {
+          verb: 'answered',
+          object: (event) => `https://example.org/items/${event.item}`,
+          result: (event) => ({ response: event.response })
+        }
+      }
+    });
+    logger(JSON.stringify({ event: 'submit', item: 'q1', response: '42', metadata: { iso_ts: '2026-01-01T00:00:00.000Z' } }));
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson' }));
+    logger(JSON.stringify({ event: 'mouseclick' }));
+    // Neither a mapping nor a verb, though every object has one
+    logger(JSON.stringify({ event: 'toString', object: 'https://example.org/lesson' }));
+    logger(JSON.stringify({ event: 'constructor', object: 'https://example.org/lesson' }));
+
+    await wait(200);
+
+    expect(requests.length).toBe(1);
+    const { url, headers, statements } = requests[0];
+    expect(url).toBe('/xapi/statements');
+    expect(headers.authorization).toBe(`Basic ${Buffer.from('key:secret').toString('base64')}`);
+    expect(headers['x-experience-api-version']).toBe('1.0.3');
+    expect(statements.map(s => s.verb.id)).toEqual([
+      'http://adlnet.gov/expapi/verbs/answered',
+      'http://adlnet.gov/expapi/verbs/completed'
+    ]);
+    expect(statements[0].object.id).toBe('https://example.org/items/q1');
+    expect(statements[0].result.response).toBe('42');
+    expect(statements[0].timestamp).toBe('2026-01-01T00:00:00.000Z');
+    expect(statements[0].actor.account).toEqual({ homePage: 'https://example.org', name: 'student1' });
+    await logger.stop();
+  });
+
+  it('sends a conflicting batch one statement at a time', async () => {
+    const logger = await makeLogger({ auth: { token: 'abc' } });
+    const statement = {
+      event: 'xapi_statement',
+      statement: {
+        id: '6e4ee2f4-5a47-4b3c-a9de-2a8a3a0a5c11',
+        actor: { mbox: 'mailto:student@example.org' },
+        verb: { id: 'http://adlnet.gov/expapi/verbs/attempted' },
+        object: { id: 'https://example.org/lesson' }
+      }
+    };
+    stored.add(statement.statement.id);
+    logger(JSON.stringify(statement));
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson' }));
+
+    await wait(200);
+
+    expect(requests[0].headers.authorization).toBe('Bearer abc');
+    expect(requests.map(r => r.statements.length)).toEqual([2, 1, 1]);
+    expect((await logger.getStatus()).queue.size).toBe(0);
+    await logger.stop();
+  });
+
+  it('sets aside only the statements the LRS rejects from a batch', async () => {
+    responses = [400, 200, 400];
+    const logger = await makeLogger();
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson/1' }));
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson/2' }));
+
+    await wait(200);
+
+    expect(requests.map(r => r.statements.length)).toEqual([2, 1, 1]);
+    const status = await logger.getStatus();
+    expect(status.queue.size).toBe(0);
+    expect(status.queue.deadLetters).toBe(1);
+    expect([...stored]).toContain(requests[1].statements[0].id);
+    await logger.stop();
+  });
+
+  it('keeps statements while the LRS refuses our credentials', async () => {
+    responses = [401];
+    const logger = await makeLogger();
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson/1' }));
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson/2' }));
+
+    await wait(200);
+
+    // Not sent one at a time, nor set aside, but retried later
+    expect(requests.map(r => r.statements.length)).toEqual([2]);
+    const status = await logger.getStatus();
+    expect(status.queue.size).toBe(2);
+    expect(status.queue.deadLetters).toBe(0);
+    await logger.stop();
+  });
+
+  it('posts nothing while the server holds events', async () => {
+    disabler.handleBlockError(new disabler.BlockError('hold', disabler.TIME_LIMIT.PERMANENT, 'MAINTAIN'));
+    const logger = await makeLogger();
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson' }));
+    await wait(200);
+    expect(requests).toEqual([]);
+
+    await disabler.release();
+    await wait(200);
+    expect(requests.length).toBe(1);
+    expect((await logger.getStatus()).queue.size).toBe(0);
+    await logger.stop();
+  });
+
+  it('waits and retries when rate limited', async () => {
+    responses = [429];
+    const logger = await makeLogger();
+    logger(JSON.stringify({ event: 'completed', object: 'https://example.org/lesson' }));
+
+    await wait(200);
+
+    expect(requests.length).toBe(2);
+    expect(requests[1].statements[0].id).toBe(requests[0].statements[0].id);
+    expect((await logger.getStatus()).connected).toBe(true);
+    await logger.stop();
+  });
+});
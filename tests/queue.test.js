@@ -1,8 +1,11 @@
 // TODO: Test both types of queue, and then in node and
 // browser, as well as various failure conditions.
 
-import { describe, it, expect } from 'vitest';
-import { Queue } from '../src/queue.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Queue, QueueType, OVERFLOW_POLICY } from '../src/queue.js';
 
 describe('Queue', () => {
   it('dequeues items in FIFO order', async () => {
@@ -39,4 +42,382 @@ describe('Queue', () => {
 
     expect(received).toEqual(['a', 'b']);
   });
+
+  it('stops its dequeue loop, and can start it again', async () => {
+    const queue = new Queue('stopTest', { queueType: QueueType.IN_MEMORY });
+    const received = [];
+    queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    queue.enqueue('a');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    // The loop is waiting for an item
+    await queue.stop();
+    queue.enqueue('b');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toEqual(['a']);
+    expect(await queue.size()).toBe(1);
+
+    queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toEqual(['a', 'b']);
+  });
+});
+
+describe('File queue', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+
+  it('keeps items in FIFO order across restarts', async () => {
+    const first = new Queue('restart', { queueType: QueueType.FILE, directory });
+    for (const item of [0, 1, 2, 3, 4]) {
+      first.enqueue(item);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const second = new Queue('restart', { queueType: QueueType.FILE, directory });
+    const received = [];
+    second.startDequeueLoop({
+      onDequeue: (item) => { received.push(item); }
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('skips a partially written last line', async () => {
+    const journal = path.join(directory, 'torn.journal');
+    fs.writeFileSync(journal, '{"e":0,"v":"a"}\n{"e":1,"v":"b"}\n{"d":0}\n{"e":2,"v":');
+
+    const queue = new Queue('torn', { queueType: QueueType.FILE, directory });
+    const received = [];
+    queue.startDequeueLoop({
+      onDequeue: (item) => { received.push(item); }
+    });
+    queue.enqueue('c');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['b', 'c']);
+  });
+
+  it('is what we use by default in node', async () => {
+    const previous = process.env.LO_EVENT_QUEUE_DIR;
+    process.env.LO_EVENT_QUEUE_DIR = directory;
+    try {
+      const queue = new Queue('autodetected');
+      queue.enqueue('a');
+      expect(await queue.size()).toBe(1);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(fs.existsSync(path.join(directory, 'autodetected.journal'))).toBe(true);
+    } finally {
+      process.env.LO_EVENT_QUEUE_DIR = previous;
+    }
+  });
+
+  it('keeps items in memory if it cannot open its journal', async () => {
+    const file = path.join(directory, 'not-a-directory');
+    fs.writeFileSync(file, '');
+    const queue = new Queue('unwritable', { queueType: QueueType.FILE, directory: path.join(file, 'queue') });
+    queue.enqueue('a');
+    queue.enqueue('b');
+    const received = [];
+    queue.startDequeueLoop({
+      onDequeue: (item) => { received.push(item); }
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['a', 'b']);
+  });
+});
+
+describe('Bounded queue', () => {
+  async function collect (queue) {
+    const received = [];
+    queue.startDequeueLoop({
+      onDequeue: (item) => { received.push(item); }
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return received;
+  }
+
+  const overflowEvent = (info) => ({ overflow: info.dropped });
+
+  it('drops the oldest items by default', async () => {
+    const queue = new Queue('dropOldest', { queueType: QueueType.IN_MEMORY, limits: { maxItems: 3 }, overflowEvent });
+    [0, 1, 2, 3, 4].forEach(queue.enqueue);
+    expect(await collect(queue)).toEqual([{ overflow: 2 }, 2, 3, 4]);
+  });
+
+  it('drops the newest items', async () => {
+    const queue = new Queue('dropNewest', {
+      queueType: QueueType.IN_MEMORY,
+      limits: { maxItems: 3, overflowPolicy: OVERFLOW_POLICY.DROP_NEWEST },
+      overflowEvent
+    });
+    [0, 1, 2, 3, 4].forEach(queue.enqueue);
+    expect(await collect(queue)).toEqual([{ overflow: 2 }, 0, 1, 2]);
+  });
+
+  it('drops the least important items first', async () => {
+    const queue = new Queue('dropByPriority', {
+      queueType: QueueType.IN_MEMORY,
+      limits: { maxItems: 2, overflowPolicy: OVERFLOW_POLICY.DROP_BY_PRIORITY }
+    });
+    const items = [{ id: 'a', priority: 0 }, { id: 'b', priority: 1 }, { id: 'c', priority: 1 }, { id: 'd', priority: 0 }];
+    items.forEach(queue.enqueue);
+    expect((await collect(queue)).map(item => item.id)).toEqual(['b', 'c']);
+  });
+
+  it('limits the queue by size in bytes', async () => {
+    const queue = new Queue('maxBytes', { queueType: QueueType.IN_MEMORY, limits: { maxBytes: 10 } });
+    ['aaaa', 'bbbb', 'cccc'].forEach(queue.enqueue);
+    expect(await collect(queue)).toEqual(['bbbb', 'cccc']);
+  });
+
+  it('keeps a random sample of items once full', async () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValueOnce(0.9).mockReturnValueOnce(0.1);
+    const queue = new Queue('sample', {
+      queueType: QueueType.IN_MEMORY,
+      limits: { maxItems: 2, overflowPolicy: OVERFLOW_POLICY.SAMPLE, sampleRate: 0.5 },
+      overflowEvent
+    });
+    [0, 1, 2, 3].forEach(queue.enqueue);
+    random.mockRestore();
+    // 2 is not sampled; 3 is, and pushes out 0
+    expect(await collect(queue)).toEqual([{ overflow: 2 }, 1, 3]);
+  });
+
+  it('applies its limits to what a persistent queue already holds', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+    const first = new Queue('backlog', { queueType: QueueType.FILE, directory });
+    [0, 1, 2, 3, 4].forEach(first.enqueue);
+    expect(await first.size()).toBe(5);
+
+    const second = new Queue('backlog', { queueType: QueueType.FILE, directory, limits: { maxItems: 3 } });
+    second.enqueue(5);
+    expect(await collect(second)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('Queue introspection', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+
+  for (const queueType of [QueueType.IN_MEMORY, QueueType.FILE]) {
+    it(`reports size, age, and contents (${queueType})`, async () => {
+      const before = Date.now();
+      const queue = new Queue('introspection', { queueType, directory });
+      expect(await queue.oldestTimestamp()).toBe(null);
+      ['a', 'bb', 'ccc'].forEach(queue.enqueue);
+
+      expect(await queue.size()).toBe(3);
+      expect(await queue.byteSize()).toBe(6);
+      expect(await queue.oldestTimestamp()).toBeGreaterThanOrEqual(before);
+      expect(await queue.peek(2)).toEqual(['a', 'bb']);
+      // Peeking does not remove anything
+      expect(await queue.status()).toMatchObject({ size: 3, byteSize: 6 });
+
+      await queue.clear();
+      expect(await queue.size()).toBe(0);
+    });
+  }
+});
+
+describe('Batch dequeue', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+
+  for (const queueType of [QueueType.IN_MEMORY, QueueType.FILE]) {
+    it(`hands batches to onDequeue (${queueType})`, async () => {
+      const queue = new Queue('batches', { queueType, directory });
+      [0, 1, 2, 3, 4].forEach(queue.enqueue);
+      const received = [];
+      queue.startDequeueLoop({
+        onDequeue: (items) => { received.push(items); },
+        batchSize: 2
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      queue.enqueue(5);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(received).toEqual([[0, 1], [2, 3], [4], [5]]);
+    });
+  }
+});
+
+describe('Transactional dequeue', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'));
+
+  for (const queueType of [QueueType.IN_MEMORY, QueueType.FILE]) {
+    it(`retries failed items in order, then dead-letters them (${queueType})`, async () => {
+      const queue = new Queue('leases', { queueType, directory });
+      ['a', 'b', 'poison', 'c'].forEach(queue.enqueue);
+      const received = [];
+      let failures = 0;
+      queue.startDequeueLoop({
+        onDequeue: (item) => {
+          if (item === 'b' && failures++ === 0) throw new Error('flaky');
+          if (item === 'poison') throw new Error('always fails');
+          received.push(item);
+        },
+        onError: () => {},
+        maxRetries: 2,
+        retryDelay: 1
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(received).toEqual(['a', 'b', 'c']);
+      expect(await queue.size()).toBe(0);
+      const letters = await queue.deadLetters();
+      expect(letters.map(({ item, attempts }) => [item, attempts])).toEqual([['poison', 3]]);
+      expect((await queue.status()).deadLetters).toBe(1);
+    });
+  }
+
+  for (const queueType of [QueueType.IN_MEMORY, QueueType.FILE]) {
+    it(`wakes everything waiting for an item (${queueType})`, async () => {
+      const queue = new Queue(`waiters-${queueType}`, { queueType, directory });
+      let woken = 0;
+      const waiting = [queue.waitForItem(), queue.waitForItem()].map(wait => wait.then(() => woken++));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queue.enqueue('a');
+      await Promise.all(waiting);
+      expect(woken).toBe(2);
+    });
+  }
+
+  it('keeps leased items until they are committed', async () => {
+    const first = new Queue('uncommitted', { queueType: QueueType.FILE, directory });
+    ['a', 'b'].forEach(first.enqueue);
+    first.startDequeueLoop({
+      onDequeue: () => new Promise(() => {}) // never finishes sending
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // As if the process had died mid-send
+    const second = new Queue('uncommitted', { queueType: QueueType.FILE, directory });
+    expect(await second.peek(2)).toEqual(['a', 'b']);
+  });
+});
+
+describe('Multi-tab coordination', () => {
+  // A stand-in for the Web Locks API: one holder per lock, the rest wait.
+  function fakeLocks () {
+    const waiting = [];
+    let holder = null;
+    const locks = {
+      request (name, callback) {
+        waiting.push(callback);
+        if (!holder) locks.release();
+      },
+      // The holder lets go (or its tab closes), and the next in line
+      // takes the lock
+      release () {
+        const callback = waiting.shift() ?? null;
+        holder = callback;
+        if (callback) {
+          Promise.resolve(callback()).then(() => {
+            if (holder === callback) locks.release();
+          });
+        }
+      }
+    };
+    return locks;
+  }
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('only drains the queue in the leading tab, until it closes', async () => {
+    const locks = fakeLocks();
+    vi.stubGlobal('navigator', { locks });
+    // Each tab has its own copy of lo_event, sharing one persistent queue
+    const received = [];
+    const tabs = [];
+    for (const tab of [0, 1]) {
+      vi.resetModules();
+      const { Queue } = await import('../src/queue.js');
+      const queue = new Queue('shared', { queueType: QueueType.IN_MEMORY, coordinate: true });
+      queue.enqueue(`tab ${tab}`);
+      queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+      tabs.push(queue);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['tab 0']);
+    expect((await tabs[0].status()).leader).toBe(true);
+    expect((await tabs[1].status()).leader).toBe(false);
+
+    // The leading tab closes
+    locks.release();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['tab 0', 'tab 1']);
+    expect((await tabs[1].status()).leader).toBe(true);
+  });
+
+  it('lets another tab lead while the leader is stopped', async () => {
+    vi.stubGlobal('navigator', { locks: fakeLocks() });
+    const received = [];
+    const tabs = [];
+    for (const tab of [0, 1]) {
+      vi.resetModules();
+      const { Queue } = await import('../src/queue.js');
+      const queue = new Queue('shared', { queueType: QueueType.IN_MEMORY, coordinate: true });
+      queue.enqueue(`tab ${tab}`);
+      queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+      tabs.push(queue);
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['tab 0']);
+
+    await tabs[0].stop();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['tab 0', 'tab 1']);
+    expect((await tabs[0].status()).leader).toBe(false);
+
+    // Started again, the first tab waits its turn
+    tabs[0].enqueue('tab 0 again');
+    tabs[0].startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['tab 0', 'tab 1']);
+
+    await tabs[1].stop();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(received).toEqual(['tab 0', 'tab 1', 'tab 0 again']);
+    expect((await tabs[0].status()).leader).toBe(true);
+    await tabs[0].stop();
+  });
+});
+
+describe('Priority lanes', () => {
+  const lanes = ['critical', 'normal', 'telemetry'];
+
+  it('drains more important lanes first', async () => {
+    const queue = new Queue('lanes', { queueType: QueueType.IN_MEMORY, lanes, defaultLane: 'normal' });
+    queue.enqueue('hover 1', { lane: 'telemetry' });
+    queue.enqueue('hover 2', { lane: 'telemetry' });
+    queue.enqueue('edit');
+    queue.enqueue('submit', { lane: 'critical' });
+    expect(await queue.peek(4)).toEqual(['submit', 'edit', 'hover 1', 'hover 2']);
+
+    const received = [];
+    queue.startDequeueLoop({ onDequeue: (item) => { received.push(item); } });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    queue.enqueue('hover 3', { lane: 'telemetry' });
+    queue.enqueue('submit 2', { lane: 'critical' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['submit', 'edit', 'hover 1', 'hover 2', 'submit 2', 'hover 3']);
+  });
+
+  it('drops telemetry first when full', async () => {
+    const queue = new Queue('laneOverflow', {
+      queueType: QueueType.IN_MEMORY,
+      lanes,
+      limits: { maxItems: 3 }
+    });
+    queue.enqueue('hover', { lane: 'telemetry' });
+    queue.enqueue('edit', { lane: 'normal' });
+    queue.enqueue('submit 1', { lane: 'critical' });
+    queue.enqueue('submit 2', { lane: 'critical' });
+    queue.enqueue('hover 2', { lane: 'telemetry' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(await queue.peek(3)).toEqual(['submit 1', 'submit 2', 'edit']);
+  });
 });
@@ -0,0 +1,65 @@
+/*
+ * Test of redaction rules and detectors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRedactor, COMMON_RULES } from '../src/redact.js';
+import * as util from '../src/util.js';
+
+describe('createRedactor', () => {
+  it('redacts fields by path', () => {
+    const redact = createRedactor({
+      rules: [
+        ...COMMON_RULES,
+        { path: 'answers[1].email', action: 'hash' }
+      ],
+      salt: 'deployment'
+    });
+    const event = {
+      event: 'browser.key.keydown',
+      target: { id: 'answer', value: 'secret' },
+      currentTarget: { value: 'secret' },
+      answers: [{ email: 'a@example.org' }, { email: 'b@example.org' }],
+      metadata: { iso_ts: '2026-10-19T00:00:00.000Z' }
+    };
+    const { value, redacted } = redact(event, event.event);
+    expect(value.target).toEqual({ id: 'answer', value: '******' });
+    expect(value.currentTarget.value).toBe('******');
+    expect(value.answers[0].email).toBe('a@example.org');
+    expect(value.answers[1].email).toBe(util.sha256('deployment:b@example.org'));
+    expect(value.metadata).toEqual(event.metadata);
+    expect(redacted).toEqual(['target.value', 'currentTarget.value', 'answers[1].email']);
+    // The event itself is untouched
+    expect(event.target.value).toBe('secret');
+
+    // Input values are only masked in browser events
+    expect(redact({ event: 'submit', answer: { value: 42 } }, 'submit').redacted).toEqual([]);
+    const fields = { browser_info: { document: { cookie: 'sid=1', title: 'Quiz' } }, localStorageInfo: { token: 'x' } };
+    expect(redact(fields, 'lock_fields').value).toEqual({ browser_info: { document: { title: 'Quiz' } } });
+  });
+
+  it('finds personal information in text', () => {
+    const redact = createRedactor({
+      detectors: [
+        { detector: 'email', action: 'mask' },
+        { detector: 'phone', action: 'drop' },
+        { detector: 'ssn', action: 'mask' }
+      ]
+    });
+    const { value, redacted } = redact({
+      event: 'message',
+      text: 'Mail ada@example.org or call (555) 123-4567',
+      notes: ['SSN 123-45-6789', 'order 15551234567'],
+      metadata: { human_ts: 'ada@example.org' }
+    }, 'message');
+    expect(value.text).toBe('Mail *************** or call ');
+    expect(value.notes).toEqual(['SSN ***********', 'order 15551234567']);
+    expect(value.metadata.human_ts).toBe('ada@example.org');
+    expect(redacted).toEqual(['text', 'notes[0]']);
+  });
+
+  it('needs a salt to hash', () => {
+    expect(() => createRedactor({ detectors: [{ detector: 'email', action: 'hash' }] })).toThrow('salt');
+    expect(() => createRedactor({ detectors: [{ detector: 'zip', action: 'mask' }] })).toThrow('Unknown');
+  });
+});
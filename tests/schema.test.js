@@ -0,0 +1,133 @@
+/*
+ * Test of the event schema registry and validator.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import * as schema from '../src/schema.js';
+import * as debug from '../src/debugLog.js';
+
+const submitSchema = {
+  type: 'object',
+  properties: {
+    response: { type: 'string', minLength: 1 },
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    tags: { type: 'array', items: { enum: ['draft', 'final'] } }
+  },
+  required: ['response'],
+  additionalProperties: false
+};
+
+describe('validate', () => {
+  it('accepts valid events', () => {
+    expect(schema.validate(submitSchema, { response: '42', score: 3, tags: ['final'] })).toEqual([]);
+  });
+
+  it('reports misspelled, missing, and malformed fields', () => {
+    expect(schema.validate(submitSchema, { respone: '42', score: 3.5, tags: ['done'] })).toEqual([
+      'missing required field response',
+      'unexpected field respone',
+      'score: expected integer, got number',
+      'tags[0]: must be one of ["draft","final"]'
+    ]);
+  });
+});
+
+describe('checkEvent', () => {
+  const reports = [];
+  debug.setLogOutputs([(messageType, message) => reports.push({ messageType, message })]);
+  schema.registerSchema('submit', submitSchema);
+
+  afterEach(() => {
+    reports.length = 0;
+    schema.setValidationMode(schema.VALIDATION_MODE.WARN);
+  });
+
+  it('ignores events without a schema', () => {
+    expect(schema.checkEvent('hover', { anything: true })).toBe(true);
+    expect(reports).toEqual([]);
+  });
+
+  it('reports invalid events, and logs them anyway, in WARN mode', () => {
+    expect(schema.checkEvent('submit', { respone: '42' })).toBe(true);
+    expect(reports[0].messageType).toBe('SchemaValidationError');
+  });
+
+  it('drops invalid events in DROP mode', () => {
+    schema.setValidationMode(schema.VALIDATION_MODE.DROP);
+    expect(schema.checkEvent('submit', { respone: '42' })).toBe(false);
+    expect(reports.length).toBe(1);
+  });
+
+  it('throws in THROW mode', () => {
+    schema.setValidationMode(schema.VALIDATION_MODE.THROW);
+    expect(() => schema.checkEvent('submit', { respone: '42' })).toThrow(schema.SchemaValidationError);
+  });
+
+  it('does nothing in OFF mode', () => {
+    schema.setValidationMode(schema.VALIDATION_MODE.OFF);
+    expect(schema.checkEvent('submit', { respone: '42' })).toBe(true);
+    expect(reports).toEqual([]);
+  });
+});
+
+describe('generateEventTypes', () => {
+  it('generates an event map interface', () => {
+    const source = schema.generateEventTypes({
+      submit: { ...submitSchema, description: 'A student submits a response' },
+      'browser.mouse.click': { type: 'object', properties: { x: { type: 'number' } } }
+    }, { interfaceName: 'MyEvents', source: 'schemas.json' });
+
+    expect(source).toBe(`// Generated by lo-event-types from schemas.json. Do not edit.
+
+export interface MyEvents {
+  /** A student submits a response */
+  submit: {
+    response: string;
+    score?: number;
+    tags?: Array<"draft" | "final">;
+  };
+  "browser.mouse.click": {
+    x?: number;
+    [key: string]: unknown;
+  };
+}
+`);
+  });
+
+  it('gives types which check events at compile time', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_types-'));
+    fs.writeFileSync(path.join(directory, 'events.ts'), schema.generateEventTypes({ submit: submitSchema }));
+    const loEvent = path.resolve('src/loEvent.js');
+    fs.writeFileSync(path.join(directory, 'check.ts'), `
+      import { createEventLogger } from ${JSON.stringify(loEvent)};
+      import type { Events } from './events.js';
+
+      const { logEvent } = createEventLogger<Events>();
+      logEvent('submit', { response: '42', tags: ['final'] });
+      // @ts-expect-error: not a string
+      logEvent('submit', { response: 42 });
+      // @ts-expect-error: missing response
+      logEvent('submit', {});
+      // @ts-expect-error: not an event type
+      logEvent('sbumit', { response: '42' });
+    `);
+
+    // globals.d.ts declares the browser globals lo_event uses
+    const program = ts.createProgram([path.join(directory, 'check.ts'), path.resolve('src/globals.d.ts')], {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts']
+    });
+    const errors = ts.getPreEmitDiagnostics(program)
+      .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    expect(errors).toEqual([]);
+  }, 60000);
+});
@@ -4,6 +4,7 @@
 // * Much better description strings
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
 import * as util from '../src/util.js';
 
 let someAsyncCondition;
@@ -95,4 +96,24 @@ describe('util.js testing', () => {
     const fields = ['foo', 'baz'];
     expect(util.copyFields(source, fields)).toEqual({ foo: 'bar' });
   });
+
+  it('hashes with SHA-256', () => {
+    expect(util.sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(util.sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    // Several blocks, and non-ASCII text
+    expect(util.sha256('é'.repeat(100))).toBe(createHash('sha256').update('é'.repeat(100)).digest('hex'));
+  });
+
+  it('reads Retry-After as seconds or a date, and ignores anything else', () => {
+    const response = (value) => new Response(null, { status: 429, headers: value === null ? {} : { 'Retry-After': value } });
+    expect(util.retryAfter(response('2'))).toBe(2000);
+    expect(util.retryAfter(response(new Date(Date.now() - 1000).toUTCString()))).toBe(0);
+    expect(util.retryAfter(response('soon'))).toBe(null);
+    expect(util.retryAfter(response(null))).toBe(null);
+  });
+
+  it('tells rejections of what we sent from failures worth retrying', () => {
+    expect([400, 409, 413, 422].map(util.isRejection)).toEqual([true, true, true, true]);
+    expect([401, 403, 404, 408, 429, 500, 503].map(util.isRejection)).toEqual(Array(7).fill(false));
+  });
 });
@@ -0,0 +1,262 @@
+/*
+ * Test of the websocket logger against a small stand-in server.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { WebSocketServer } from 'ws';
+import zlib from 'zlib';
+import { websocketLogger } from '../src/websocketLogger.js';
+import { QueueType } from '../src/queue.js';
+import * as util from '../src/util.js';
+
+let server;
+let url;
+// Frames received on each connection, in order
+let connections = [];
+// Called with each frame and its socket
+let onFrame = () => {};
+
+beforeAll(async () => {
+  server = new WebSocketServer({ host: 'localhost', port: 0 });
+  await new Promise(resolve => server.on('listening', resolve));
+  url = `ws://localhost:${server.address().port}`;
+  server.on('connection', (ws) => {
+    const frames = [];
+    connections.push(frames);
+    ws.on('message', (data, isBinary) => {
+      const frame = JSON.parse(isBinary ? decompress(data) : data.toString());
+      frames.push(frame);
+      onFrame(frame, ws);
+    });
+  });
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// A compressed batch: `lo_batch:gzip\n`, then the batch
+function decompress (data) {
+  const newline = data.indexOf(10);
+  expect(data.subarray(0, newline).toString()).toBe('lo_batch:gzip');
+  return zlib.gunzipSync(data.subarray(newline + 1)).toString();
+}
+
+function reset (handler = () => {}) {
+  connections = [];
+  onFrame = handler;
+}
+
+// The events in `frames`, with batches unpacked
+function eventsIn (frames) {
+  return frames.flatMap(frame => frame.event === 'batch' ? frame.events : [frame]);
+}
+
+function send (logger, n) {
+  logger(JSON.stringify({ event: 'test', n }));
+}
+
+function lock (logger, version, fields) {
+  logger.setField(JSON.stringify({ event: 'lock_fields', version, fields }));
+}
+
+// The `user_id` each event was sent under, by `n`
+function usersIn (frames) {
+  const users = {};
+  let fields = {};
+  for (const frame of frames) {
+    if (frame.event === 'session_header') {
+      fields = frame.fields;
+    } else {
+      eventsIn([frame])
+        .filter(event => event.n !== undefined)
+        .forEach(event => { users[event.n] = fields.user_id; });
+    }
+  }
+  return users;
+}
+
+describe('websocketLogger', () => {
+  it('replays unacknowledged events when it reconnects', async () => {
+    reset((frame, ws) => {
+      if (connections.length === 1 && frame.seq === 1) {
+        ws.close();
+      } else if (connections.length > 1) {
+        ws.send(JSON.stringify({ status: 'ack', upto: frame.seq }));
+      }
+    });
+    const logger = websocketLogger(url, { ack: true, queueType: QueueType.IN_MEMORY });
+    await logger.init();
+    send(logger, 0);
+    send(logger, 1);
+    expect(await util.waitFor(() => connections.length === 2 && connections[1].length === 2, 2000)).toBe(true);
+    expect(connections[1].map(frame => frame.seq)).toEqual([0, 1]);
+
+    send(logger, 2);
+    expect(await logger.flush(2000)).toBe(true);
+    expect(eventsIn(connections[1]).map(frame => frame.seq)).toEqual([0, 1, 2]);
+    await logger.stop();
+  });
+
+  it('replays only batches already sent, not those still waiting', async () => {
+    reset((frame, ws) => {
+      if (connections.length === 1) {
+        ws.close();
+      } else if (frame.event === 'batch') {
+        ws.send(JSON.stringify({ status: 'ack', upto: Math.max(...frame.events.map(e => e.seq)) }));
+      } else {
+        ws.send(JSON.stringify({ status: 'ack', upto: frame.seq }));
+      }
+    });
+    const logger = websocketLogger(url, {
+      ack: true,
+      batch: { maxCount: 2, maxDelay: 10000 },
+      queueType: QueueType.IN_MEMORY
+    });
+    await logger.init();
+    send(logger, 0);
+    send(logger, 1);
+    send(logger, 2);
+    expect(await util.waitFor(() => connections.length === 2, 2000)).toBe(true);
+    expect(await logger.flush(2000)).toBe(true);
+    expect(eventsIn(connections[1]).map(frame => frame.seq)).toEqual([0, 1, 2]);
+    await logger.stop();
+  });
+
+  it('waits for acknowledgements once too many are outstanding', async () => {
+    let socket;
+    reset((frame, ws) => { socket = ws; });
+    const logger = websocketLogger(url, { ack: true, maxUnacknowledged: 2, queueType: QueueType.IN_MEMORY });
+    await logger.init();
+    for (let n = 0; n < 5; n++) {
+      send(logger, n);
+    }
+    expect(await util.waitFor(() => connections[0]?.length === 2, 2000)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(connections[0].length).toBe(2);
+    expect((await logger.getStatus()).unacknowledged).toBe(2);
+
+    socket.send(JSON.stringify({ status: 'ack', upto: 1 }));
+    expect(await util.waitFor(() => connections[0].length === 4, 2000)).toBe(true);
+    await logger.stop();
+  });
+
+  it('keeps batches it could not send, and sends them after', async () => {
+    reset();
+    let failures = 1;
+    const RealCompressionStream = CompressionStream;
+    vi.stubGlobal('CompressionStream', function (format) {
+      if (failures-- > 0) {
+        throw new Error('compression failed');
+      }
+      return new RealCompressionStream(format);
+    });
+    const logger = websocketLogger(url, {
+      batch: { maxCount: 2, maxDelay: 20 },
+      compression: 'gzip',
+      queueType: QueueType.IN_MEMORY
+    });
+    await logger.init();
+    for (let n = 0; n < 4; n++) {
+      send(logger, n);
+    }
+    expect(await util.waitFor(() => eventsIn(connections[0] ?? []).length === 4, 2000)).toBe(true);
+    expect(eventsIn(connections[0]).map(event => event.n).sort()).toEqual([0, 1, 2, 3]);
+    await logger.stop();
+  });
+
+  it('measures batches in encoded bytes', async () => {
+    reset();
+    const logger = websocketLogger(url, {
+      batch: { maxCount: 100, maxBytes: 100, maxDelay: 10000 },
+      queueType: QueueType.IN_MEMORY
+    });
+    await logger.init();
+    // 70 characters, but over 100 bytes
+    logger(JSON.stringify({ event: 'test', text: 'é'.repeat(50) }));
+    expect(await util.waitFor(() => connections[0]?.length === 1, 2000)).toBe(true);
+    await logger.stop();
+  });
+
+  it('sends queued events under the fields they were logged under, across a reconnect', async () => {
+    reset((frame, ws) => {
+      if (connections.length === 1 && frame.n === 1) {
+        ws.close();
+      } else if (connections.length > 1 && frame.seq !== undefined) {
+        ws.send(JSON.stringify({ status: 'ack', upto: frame.seq }));
+      }
+    });
+    const logger = websocketLogger(url, { ack: true, queueType: QueueType.IN_MEMORY });
+    // Offline, a student logs out, and another logs in
+    lock(logger, 1, { user_id: 'ada' });
+    send(logger, 0);
+    logger.setField(JSON.stringify({ event: 'unlock_fields', version: 2, fields: ['user_id'] }));
+    send(logger, 1);
+    logger.setField(JSON.stringify({ event: 'lock_fields_reset', version: 3, fields: { user_id: 'grace' } }));
+    send(logger, 2);
+    await logger.init();
+
+    expect(await util.waitFor(() => connections.length === 2 && Object.keys(usersIn(connections[1])).length === 3, 2000)).toBe(true);
+    const expected = { 0: 'ada', 1: undefined, 2: 'grace' };
+    expect(usersIn(connections[1])).toEqual(expected);
+    // The first connection, cut short, was no different
+    for (const [n, user] of Object.entries(usersIn(connections[0]))) {
+      expect(user).toBe(expected[n]);
+    }
+    await logger.stop();
+  });
+
+  it('starts a new batch when the fields change', async () => {
+    reset();
+    const logger = websocketLogger(url, { batch: { maxCount: 10, maxDelay: 20 }, queueType: QueueType.IN_MEMORY });
+    lock(logger, 1, { user_id: 'ada' });
+    send(logger, 0);
+    send(logger, 1);
+    lock(logger, 2, { user_id: 'grace' });
+    send(logger, 2);
+    await logger.init();
+
+    expect(await util.waitFor(() => Object.keys(usersIn(connections[0] ?? [])).length === 3, 2000)).toBe(true);
+    expect(usersIn(connections[0])).toEqual({ 0: 'ada', 1: 'ada', 2: 'grace' });
+    const batches = connections[0].filter(frame => frame.event === 'batch');
+    // The first change goes out before anything was locked
+    expect(batches.map(frame => frame.events.length)).toEqual([1, 3, 1]);
+    // Changes go out in order too, for servers which ignore headers
+    expect(eventsIn(connections[0]).map(event => event.event)).toEqual([
+      'session_header', 'lock_fields', 'session_header', 'test', 'test', 'lock_fields', 'session_header', 'test'
+    ]);
+    await logger.stop();
+  });
+
+  it('sends events from a tab sharing its queue under that tab\'s fields', async () => {
+    reset();
+    // Two tabs, sharing one queue in IndexedDB. Only the first sends.
+    const first = websocketLogger(url, { queueType: QueueType.INDEXEDDB });
+    const second = websocketLogger(url, { queueType: QueueType.INDEXEDDB });
+    lock(first, 1, { user_id: 'ada' });
+    lock(second, 1, { user_id: 'grace' });
+    await first.init();
+    send(first, 0);
+    send(second, 1);
+    send(first, 2);
+    expect(await util.waitFor(() => Object.keys(usersIn(connections[0] ?? [])).length === 3, 2000)).toBe(true);
+    expect(usersIn(connections[0])).toEqual({ 0: 'ada', 1: 'grace', 2: 'ada' });
+    await first.stop();
+  });
+
+  it('keeps a queue of its own for each server', async () => {
+    reset();
+    const first = websocketLogger(url, { queueType: QueueType.INDEXEDDB });
+    const second = websocketLogger(`${url}/other/`, { queueType: QueueType.INDEXEDDB });
+    await first.init();
+    send(second, 0);
+    send(first, 1);
+    expect(await util.waitFor(() => eventsIn(connections[0] ?? []).length > 0, 2000)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(eventsIn(connections[0]).map(event => event.n)).toEqual([1]);
+    await first.stop();
+  });
+});
@@ -50,6 +50,9 @@ const dispatch = {
   lock_fields: function (event) {
     debug_log('WS test: Metadata: ', event);
   },
+  session_header: function (event) {
+    debug_log('WS test: Session header: ', event);
+  },
   blocklist: function (event, ws) {
     debug_log('WS test: Sending blocklist');
     ws.send(JSON.stringify({
@@ -0,0 +1,69 @@
+/*
+ * Test of the xAPI Statement builder and validator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as xapi from '../src/xapi.js';
+
+const fields = { source: 'org.ets.lo_event.test', user_id: 'student-1' };
+const accountHomePage = 'https://lo.example.org';
+
+describe('buildStatement', () => {
+  it('resolves short names and fills in the actor, id, and timestamp', () => {
+    const statement = xapi.buildStatement({
+      verb: 'answered',
+      object: { id: 'https://example.org/quiz/1/q3', type: 'question', name: 'Question 3' },
+      result: { response: '42', success: true, extensions: { apm: 12 } }
+    }, { fields, accountHomePage });
+
+    expect(statement.actor).toEqual({ objectType: 'Agent', account: { homePage: accountHomePage, name: 'student-1' } });
+    expect(statement.verb).toEqual({ id: 'http://adlnet.gov/expapi/verbs/answered', display: { 'en-US': 'answered' } });
+    expect(statement.object).toEqual({
+      objectType: 'Activity',
+      id: 'https://example.org/quiz/1/q3',
+      definition: { type: 'http://adlnet.gov/expapi/activities/question', name: { 'en-US': 'Question 3' } }
+    });
+    expect(statement.result.extensions).toEqual({ 'http://id.tincanapi.com/extension/apm': 12 });
+    expect(statement.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(xapi.validateStatement(statement)).toEqual([]);
+  });
+
+  it('prefers an email to a user id', () => {
+    const statement = xapi.buildStatement(
+      { verb: 'completed', object: 'https://example.org/course/1' },
+      { fields: { ...fields, chrome_identity: { email: 'student@example.org' } }, accountHomePage }
+    );
+    expect(statement.actor).toEqual({ objectType: 'Agent', mbox: 'mailto:student@example.org' });
+  });
+
+  it('throws on unknown verbs, and without an actor', () => {
+    expect(() => xapi.buildStatement({ verb: 'respondered', object: 'https://example.org/q' }, { fields, accountHomePage }))
+      .toThrow('Unknown xAPI verb: respondered');
+    expect(() => xapi.buildStatement({ verb: 'constructor', object: 'https://example.org/q' }, { fields, accountHomePage }))
+      .toThrow('Unknown xAPI verb: constructor');
+    expect(() => xapi.buildStatement({ verb: 'answered', object: 'https://example.org/q' }, { fields: {} }))
+      .toThrow('No xAPI actor');
+  });
+});
+
+describe('validateStatement', () => {
+  it('reports non-conformant statements', () => {
+    const statement = {
+      id: 'not-a-uuid',
+      actor: { mbox: 'student@example.org', account: { homePage: accountHomePage, name: 's' } },
+      verb: { id: 'answered' },
+      object: { id: 'https://example.org/q' },
+      result: { score: { scaled: 2 }, duration: '5 minutes' },
+      timestamp: 'yesterday'
+    };
+    expect(xapi.validateStatement(statement)).toEqual([
+      'id: must be a UUID',
+      'actor: must have exactly one of mbox, mbox_sha1sum, openid, or account',
+      'actor.mbox: must be a mailto: IRI',
+      'verb.id: must be an IRI',
+      'result.score.scaled: must be between -1 and 1',
+      'result.duration: must be an ISO 8601 duration',
+      'timestamp: must be an ISO 8601 timestamp'
+    ]);
+  });
+});
@@ -8,13 +8,27 @@ export default defineConfig({
     consoleLogger: 'src/consoleLogger.ts',
     nullLogger: 'src/nullLogger.ts',
     websocketLogger: 'src/websocketLogger.ts',
+    httpLogger: 'src/httpLogger.ts',
+    lrsLogger: 'src/lrsLogger.ts',
+    caliperLogger: 'src/caliperLogger.ts',
+    poster: 'src/poster.ts',
     reduxLogger: 'src/reduxLogger.ts',
     browserEvents: 'src/browserEvents.ts',
     browserStorage: 'src/browserStorage.ts',
     disabler: 'src/disabler.ts',
+    consent: 'src/consent.ts',
     util: 'src/util.ts',
+    beacon: 'src/beacon.ts',
+    eventFilter: 'src/eventFilter.ts',
+    leader: 'src/leader.ts',
+    lockFields: 'src/lockFields.ts',
+    schema: 'src/schema.ts',
+    xapi: 'src/xapi.ts',
+    caliper: 'src/caliper.ts',
+    redact: 'src/redact.ts',
     memoryQueue: 'src/memoryQueue.ts',
     indexeddbQueue: 'src/indexeddbQueue.ts',
+    fileQueue: 'src/fileQueue.ts',
     types: 'src/types.ts',
     'metadata/browserinfo': 'src/metadata/browserinfo.ts',
     'metadata/chromeauth': 'src/metadata/chromeauth.ts',
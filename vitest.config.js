@@ -1,7 +1,14 @@
 import { defineConfig } from 'vitest/config';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 export default defineConfig({
   test: {
     include: ['tests/**/*.test.{js,ts}'],
+    // Queues default to journal files in node; each run starts afresh
+    env: {
+      LO_EVENT_QUEUE_DIR: fs.mkdtempSync(path.join(os.tmpdir(), 'lo_event_queue-'))
+    }
   }
 });
@@ -0,0 +1,56 @@
+// Build src/xapiVocabulary.ts from the registry downloads in this
+// directory (see download_xapi_json.sh), so lo_event can resolve short
+// names without bundling the full registry.
+//
+// Run from the repository root: node xapi/build_vocabulary.js
+
+import fs from 'fs';
+
+// Where a name is registered more than once, we prefer the xAPI
+// specification's own vocabulary, then Activity Streams, then the
+// Tin Can registry.
+const PREFERRED = ['http://adlnet.gov/', 'http://activitystrea.ms/', 'http://id.tincanapi.com/'];
+
+function rank (uri) {
+  const index = PREFERRED.findIndex(prefix => uri.startsWith(prefix));
+  return index === -1 ? PREFERRED.length : index;
+}
+
+function displayName (entry) {
+  const names = entry.metadata?.metadata?.name ?? {};
+  return Object.values(names)[0];
+}
+
+function lastSegment (uri) {
+  return uri.replace(/\/$/, '').split('/').pop();
+}
+
+// Map short names (by default, the English display name) to IRIs.
+function vocabulary (file, keyOf = displayName) {
+  const entries = JSON.parse(fs.readFileSync(`xapi/${file}`, 'utf8'))
+    .filter(entry => entry.uri && keyOf(entry))
+    .sort((a, b) => rank(a.uri) - rank(b.uri));
+  const result = {};
+  for (const entry of entries) {
+    const key = keyOf(entry).toLowerCase();
+    if (!(key in result)) {
+      result[key] = entry.uri;
+    }
+  }
+  return Object.fromEntries(Object.entries(result).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function table (name, description, entries) {
+  const lines = Object.entries(entries).map(([key, uri]) => `  ${JSON.stringify(key)}: ${JSON.stringify(uri)},`);
+  return `// ${description}\nexport const ${name}: Record<string, string> = {\n${lines.join('\n')}\n};\n`;
+}
+
+const source = [
+  '// Generated from xapi/*.json by xapi/build_vocabulary.js. Do not edit.\n',
+  table('VERBS', 'Verb IRIs, by English display name (e.g. "answered")', vocabulary('verb.json')),
+  table('ACTIVITY_TYPES', 'Activity type IRIs, by English display name (e.g. "assessment")', vocabulary('activityType.json')),
+  table('EXTENSIONS', 'Extension IRIs, by the last segment of the IRI (e.g. "apm")', vocabulary('extension.json', entry => lastSegment(entry.uri))),
+  table('ATTACHMENT_USAGES', 'Attachment usage type IRIs, by the last segment of the IRI (e.g. "signature")', vocabulary('attachmentUsage.json', entry => lastSegment(entry.uri)))
+].join('\n');
+
+fs.writeFileSync('src/xapiVocabulary.ts', source);
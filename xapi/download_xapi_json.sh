@@ -13,3 +13,6 @@ for file in "${files[@]}"
 do
   python -c "import json; json.dump(json.load(open('${file}')), open('${file}.json', 'w'), indent=2)"
 done
+
+# Regenerate the vocabulary lo_event bundles
+(cd .. && node xapi/build_vocabulary.js)